@@ -0,0 +1,7 @@
+import type { TokenProvider } from "./types";
+
+export async function resolveToken(
+  token?: TokenProvider
+): Promise<string | undefined> {
+  return typeof token === "function" ? token() : token;
+}
@@ -0,0 +1,40 @@
+import * as grpc from "@grpc/grpc-js";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Raised for every failed call, over either transport. `httpStatus` is
+ * the service's own status code: the response status for REST calls, and
+ * the `x-http-status` trailer the service attaches to gRPC errors.
+ */
+export class MediaClientError extends Error {
+  code?: grpc.status; // Set for gRPC calls
+  httpStatus?: number;
+  errors?: FieldError[]; // Validation failures, per field
+
+  constructor(
+    message: string,
+    details: { code?: grpc.status; httpStatus?: number; errors?: FieldError[] }
+  ) {
+    super(message);
+    this.name = "MediaClientError";
+    this.code = details.code;
+    this.httpStatus = details.httpStatus;
+    this.errors = details.errors;
+  }
+
+  static fromServiceError(error: grpc.ServiceError): MediaClientError {
+    const [httpStatus] = error.metadata?.get("x-http-status") ?? [];
+    const [errors] = error.metadata?.get("x-error-details") ?? [];
+    return new MediaClientError(error.details || error.message, {
+      code: error.code,
+      httpStatus: httpStatus ? Number(httpStatus) : undefined,
+      errors: errors
+        ? (JSON.parse(errors.toString()) as FieldError[])
+        : undefined,
+    });
+  }
+}
@@ -0,0 +1,10 @@
+// Original file: proto/media.proto
+
+
+export interface BatchGetMediaRequest {
+  'ids'?: (string)[];
+}
+
+export interface BatchGetMediaRequest__Output {
+  'ids': (string)[];
+}
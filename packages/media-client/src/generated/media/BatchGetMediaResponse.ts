@@ -0,0 +1,19 @@
+// Original file: proto/media.proto
+
+import type { Media as _media_Media, Media__Output as _media_Media__Output } from '../media/Media';
+
+export interface BatchGetMediaResponse {
+  'success'?: (boolean);
+  'message'?: (string);
+  'data'?: (_media_Media)[];
+  'missingIds'?: (string)[];
+  '_message'?: "message";
+}
+
+export interface BatchGetMediaResponse__Output {
+  'success': (boolean);
+  'message'?: (string);
+  'data': (_media_Media__Output)[];
+  'missingIds': (string)[];
+  '_message'?: "message";
+}
@@ -0,0 +1,12 @@
+// Original file: proto/media.proto
+
+
+export interface BulkDeleteMediaRequest {
+  'ids'?: (string)[];
+  'permanent'?: (boolean);
+}
+
+export interface BulkDeleteMediaRequest__Output {
+  'ids': (string)[];
+  'permanent': (boolean);
+}
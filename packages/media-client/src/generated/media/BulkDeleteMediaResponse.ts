@@ -0,0 +1,16 @@
+// Original file: proto/media.proto
+
+
+export interface BulkDeleteMediaResponse {
+  'success'?: (boolean);
+  'message'?: (string);
+  'deleted'?: (number);
+  'failed'?: (string)[];
+}
+
+export interface BulkDeleteMediaResponse__Output {
+  'success': (boolean);
+  'message': (string);
+  'deleted': (number);
+  'failed': (string)[];
+}
@@ -0,0 +1,10 @@
+// Original file: proto/media.proto
+
+
+export interface DeleteMediaRequest {
+  'id'?: (string);
+}
+
+export interface DeleteMediaRequest__Output {
+  'id': (string);
+}
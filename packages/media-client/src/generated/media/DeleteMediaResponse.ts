@@ -0,0 +1,12 @@
+// Original file: proto/media.proto
+
+
+export interface DeleteMediaResponse {
+  'success'?: (boolean);
+  'message'?: (string);
+}
+
+export interface DeleteMediaResponse__Output {
+  'success': (boolean);
+  'message': (string);
+}
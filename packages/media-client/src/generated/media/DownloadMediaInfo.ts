@@ -0,0 +1,19 @@
+// Original file: proto/media.proto
+
+import type { Long } from '@grpc/proto-loader';
+
+export interface DownloadMediaInfo {
+  'mimeType'?: (string);
+  'fileName'?: (string);
+  'totalSize'?: (number | string | Long);
+  'rangeStart'?: (number | string | Long);
+  'rangeEnd'?: (number | string | Long);
+}
+
+export interface DownloadMediaInfo__Output {
+  'mimeType': (string);
+  'fileName': (string);
+  'totalSize': (string);
+  'rangeStart': (string);
+  'rangeEnd': (string);
+}
@@ -0,0 +1,23 @@
+// Original file: proto/media.proto
+
+import type { Long } from '@grpc/proto-loader';
+
+export interface DownloadMediaRequest {
+  'id'?: (string);
+  'variant'?: (string);
+  'rangeStart'?: (number | string | Long);
+  'rangeEnd'?: (number | string | Long);
+  '_variant'?: "variant";
+  '_rangeStart'?: "rangeStart";
+  '_rangeEnd'?: "rangeEnd";
+}
+
+export interface DownloadMediaRequest__Output {
+  'id': (string);
+  'variant'?: (string);
+  'rangeStart'?: (string);
+  'rangeEnd'?: (string);
+  '_variant'?: "variant";
+  '_rangeStart'?: "rangeStart";
+  '_rangeEnd'?: "rangeEnd";
+}
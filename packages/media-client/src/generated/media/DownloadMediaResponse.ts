@@ -0,0 +1,15 @@
+// Original file: proto/media.proto
+
+import type { DownloadMediaInfo as _media_DownloadMediaInfo, DownloadMediaInfo__Output as _media_DownloadMediaInfo__Output } from '../media/DownloadMediaInfo';
+
+export interface DownloadMediaResponse {
+  'info'?: (_media_DownloadMediaInfo | null);
+  'chunk'?: (Buffer | Uint8Array | string);
+  'data'?: "info"|"chunk";
+}
+
+export interface DownloadMediaResponse__Output {
+  'info'?: (_media_DownloadMediaInfo__Output | null);
+  'chunk'?: (Buffer);
+  'data'?: "info"|"chunk";
+}
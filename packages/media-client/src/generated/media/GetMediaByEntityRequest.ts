@@ -0,0 +1,16 @@
+// Original file: proto/media.proto
+
+
+export interface GetMediaByEntityRequest {
+  'entityType'?: (string);
+  'entityId'?: (string);
+  'fieldName'?: (string);
+  '_fieldName'?: "fieldName";
+}
+
+export interface GetMediaByEntityRequest__Output {
+  'entityType': (string);
+  'entityId': (string);
+  'fieldName'?: (string);
+  '_fieldName'?: "fieldName";
+}
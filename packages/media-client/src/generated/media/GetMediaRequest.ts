@@ -0,0 +1,10 @@
+// Original file: proto/media.proto
+
+
+export interface GetMediaRequest {
+  'id'?: (string);
+}
+
+export interface GetMediaRequest__Output {
+  'id': (string);
+}
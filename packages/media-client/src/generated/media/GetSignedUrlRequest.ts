@@ -0,0 +1,16 @@
+// Original file: proto/media.proto
+
+
+export interface GetSignedUrlRequest {
+  'id'?: (string);
+  'expiresIn'?: (number);
+  'disposition'?: (string);
+  '_disposition'?: "disposition";
+}
+
+export interface GetSignedUrlRequest__Output {
+  'id': (string);
+  'expiresIn': (number);
+  'disposition'?: (string);
+  '_disposition'?: "disposition";
+}
@@ -0,0 +1,92 @@
+// Original file: proto/media.proto
+
+import type { MediaVariant as _media_MediaVariant, MediaVariant__Output as _media_MediaVariant__Output } from '../media/MediaVariant';
+import type { Long } from '@grpc/proto-loader';
+
+export interface Media {
+  'id'?: (string);
+  'originalName'?: (string);
+  'fileName'?: (string);
+  'url'?: (string);
+  'thumbnailUrl'?: (string);
+  'type'?: (string);
+  'mimeType'?: (string);
+  'size'?: (number | string | Long);
+  'width'?: (number);
+  'height'?: (number);
+  'duration'?: (number);
+  'entityType'?: (string);
+  'entityId'?: (string);
+  'fieldName'?: (string);
+  'uploadedBy'?: (string);
+  'storageProvider'?: (string);
+  'storagePath'?: (string);
+  'isProcessed'?: (boolean);
+  'isActive'?: (boolean);
+  'createdAt'?: (string);
+  'updatedAt'?: (string);
+  'status'?: (string);
+  'processingError'?: (string);
+  'hlsUrl'?: (string);
+  'variants'?: (_media_MediaVariant)[];
+  'originalUrl'?: (string);
+  'isQuarantined'?: (boolean);
+  'alt'?: (string);
+  'caption'?: (string);
+  'order'?: (number);
+  'isCover'?: (boolean);
+  'visibility'?: (string);
+  '_thumbnailUrl'?: "thumbnailUrl";
+  '_width'?: "width";
+  '_height'?: "height";
+  '_duration'?: "duration";
+  '_processingError'?: "processingError";
+  '_hlsUrl'?: "hlsUrl";
+  '_originalUrl'?: "originalUrl";
+  '_alt'?: "alt";
+  '_caption'?: "caption";
+}
+
+export interface Media__Output {
+  'id': (string);
+  'originalName': (string);
+  'fileName': (string);
+  'url': (string);
+  'thumbnailUrl'?: (string);
+  'type': (string);
+  'mimeType': (string);
+  'size': (string);
+  'width'?: (number);
+  'height'?: (number);
+  'duration'?: (number);
+  'entityType': (string);
+  'entityId': (string);
+  'fieldName': (string);
+  'uploadedBy': (string);
+  'storageProvider': (string);
+  'storagePath': (string);
+  'isProcessed': (boolean);
+  'isActive': (boolean);
+  'createdAt': (string);
+  'updatedAt': (string);
+  'status': (string);
+  'processingError'?: (string);
+  'hlsUrl'?: (string);
+  'variants': (_media_MediaVariant__Output)[];
+  'originalUrl'?: (string);
+  'isQuarantined': (boolean);
+  'alt'?: (string);
+  'caption'?: (string);
+  'order': (number);
+  'isCover': (boolean);
+  'visibility': (string);
+  '_thumbnailUrl'?: "thumbnailUrl";
+  '_width'?: "width";
+  '_height'?: "height";
+  '_duration'?: "duration";
+  '_processingError'?: "processingError";
+  '_hlsUrl'?: "hlsUrl";
+  '_originalUrl'?: "originalUrl";
+  '_alt'?: "alt";
+  '_caption'?: "caption";
+}
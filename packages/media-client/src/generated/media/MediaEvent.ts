@@ -0,0 +1,17 @@
+// Original file: proto/media_events.proto
+
+import type { Media as _media_Media, Media__Output as _media_Media__Output } from '../media/Media';
+
+export interface MediaEvent {
+  'id'?: (string);
+  'type'?: (string);
+  'occurredAt'?: (string);
+  'media'?: (_media_Media | null);
+}
+
+export interface MediaEvent__Output {
+  'id': (string);
+  'type': (string);
+  'occurredAt': (string);
+  'media': (_media_Media__Output | null);
+}
@@ -0,0 +1,8 @@
+// Original file: proto/media_events.proto
+
+
+export interface MediaEventAck {
+}
+
+export interface MediaEventAck__Output {
+}
@@ -0,0 +1,27 @@
+// Original file: proto/media_events.proto
+
+import type * as grpc from '@grpc/grpc-js'
+import type { MethodDefinition } from '@grpc/proto-loader'
+import type { MediaEvent as _media_MediaEvent, MediaEvent__Output as _media_MediaEvent__Output } from '../media/MediaEvent';
+import type { MediaEventAck as _media_MediaEventAck, MediaEventAck__Output as _media_MediaEventAck__Output } from '../media/MediaEventAck';
+
+export interface MediaEventReceiverClient extends grpc.Client {
+  HandleMediaEvent(argument: _media_MediaEvent, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  HandleMediaEvent(argument: _media_MediaEvent, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  HandleMediaEvent(argument: _media_MediaEvent, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  HandleMediaEvent(argument: _media_MediaEvent, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  handleMediaEvent(argument: _media_MediaEvent, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  handleMediaEvent(argument: _media_MediaEvent, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  handleMediaEvent(argument: _media_MediaEvent, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  handleMediaEvent(argument: _media_MediaEvent, callback: grpc.requestCallback<_media_MediaEventAck__Output>): grpc.ClientUnaryCall;
+  
+}
+
+export interface MediaEventReceiverHandlers extends grpc.UntypedServiceImplementation {
+  HandleMediaEvent: grpc.handleUnaryCall<_media_MediaEvent__Output, _media_MediaEventAck>;
+  
+}
+
+export interface MediaEventReceiverDefinition extends grpc.ServiceDefinition {
+  HandleMediaEvent: MethodDefinition<_media_MediaEvent, _media_MediaEventAck, _media_MediaEvent__Output, _media_MediaEventAck__Output>
+}
@@ -0,0 +1,17 @@
+// Original file: proto/media.proto
+
+import type { Media as _media_Media, Media__Output as _media_Media__Output } from '../media/Media';
+
+export interface MediaListResponse {
+  'success'?: (boolean);
+  'message'?: (string);
+  'data'?: (_media_Media)[];
+  '_message'?: "message";
+}
+
+export interface MediaListResponse__Output {
+  'success': (boolean);
+  'message'?: (string);
+  'data': (_media_Media__Output)[];
+  '_message'?: "message";
+}
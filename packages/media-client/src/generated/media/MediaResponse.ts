@@ -0,0 +1,19 @@
+// Original file: proto/media.proto
+
+import type { Media as _media_Media, Media__Output as _media_Media__Output } from '../media/Media';
+
+export interface MediaResponse {
+  'success'?: (boolean);
+  'message'?: (string);
+  'data'?: (_media_Media | null);
+  '_message'?: "message";
+  '_data'?: "data";
+}
+
+export interface MediaResponse__Output {
+  'success': (boolean);
+  'message'?: (string);
+  'data'?: (_media_Media__Output | null);
+  '_message'?: "message";
+  '_data'?: "data";
+}
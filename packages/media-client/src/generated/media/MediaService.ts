@@ -0,0 +1,198 @@
+// Original file: proto/media.proto
+
+import type * as grpc from '@grpc/grpc-js'
+import type { MethodDefinition } from '@grpc/proto-loader'
+import type { BatchGetMediaRequest as _media_BatchGetMediaRequest, BatchGetMediaRequest__Output as _media_BatchGetMediaRequest__Output } from '../media/BatchGetMediaRequest';
+import type { BatchGetMediaResponse as _media_BatchGetMediaResponse, BatchGetMediaResponse__Output as _media_BatchGetMediaResponse__Output } from '../media/BatchGetMediaResponse';
+import type { BulkDeleteMediaRequest as _media_BulkDeleteMediaRequest, BulkDeleteMediaRequest__Output as _media_BulkDeleteMediaRequest__Output } from '../media/BulkDeleteMediaRequest';
+import type { BulkDeleteMediaResponse as _media_BulkDeleteMediaResponse, BulkDeleteMediaResponse__Output as _media_BulkDeleteMediaResponse__Output } from '../media/BulkDeleteMediaResponse';
+import type { DeleteMediaRequest as _media_DeleteMediaRequest, DeleteMediaRequest__Output as _media_DeleteMediaRequest__Output } from '../media/DeleteMediaRequest';
+import type { DeleteMediaResponse as _media_DeleteMediaResponse, DeleteMediaResponse__Output as _media_DeleteMediaResponse__Output } from '../media/DeleteMediaResponse';
+import type { DownloadMediaRequest as _media_DownloadMediaRequest, DownloadMediaRequest__Output as _media_DownloadMediaRequest__Output } from '../media/DownloadMediaRequest';
+import type { DownloadMediaResponse as _media_DownloadMediaResponse, DownloadMediaResponse__Output as _media_DownloadMediaResponse__Output } from '../media/DownloadMediaResponse';
+import type { GetMediaByEntityRequest as _media_GetMediaByEntityRequest, GetMediaByEntityRequest__Output as _media_GetMediaByEntityRequest__Output } from '../media/GetMediaByEntityRequest';
+import type { GetMediaRequest as _media_GetMediaRequest, GetMediaRequest__Output as _media_GetMediaRequest__Output } from '../media/GetMediaRequest';
+import type { GetSignedUrlRequest as _media_GetSignedUrlRequest, GetSignedUrlRequest__Output as _media_GetSignedUrlRequest__Output } from '../media/GetSignedUrlRequest';
+import type { MediaListResponse as _media_MediaListResponse, MediaListResponse__Output as _media_MediaListResponse__Output } from '../media/MediaListResponse';
+import type { MediaResponse as _media_MediaResponse, MediaResponse__Output as _media_MediaResponse__Output } from '../media/MediaResponse';
+import type { MediaStatusResponse as _media_MediaStatusResponse, MediaStatusResponse__Output as _media_MediaStatusResponse__Output } from '../media/MediaStatusResponse';
+import type { QueryMediaRequest as _media_QueryMediaRequest, QueryMediaRequest__Output as _media_QueryMediaRequest__Output } from '../media/QueryMediaRequest';
+import type { QueryMediaResponse as _media_QueryMediaResponse, QueryMediaResponse__Output as _media_QueryMediaResponse__Output } from '../media/QueryMediaResponse';
+import type { ReorderMediaRequest as _media_ReorderMediaRequest, ReorderMediaRequest__Output as _media_ReorderMediaRequest__Output } from '../media/ReorderMediaRequest';
+import type { SetCoverMediaRequest as _media_SetCoverMediaRequest, SetCoverMediaRequest__Output as _media_SetCoverMediaRequest__Output } from '../media/SetCoverMediaRequest';
+import type { SignedUrlResponse as _media_SignedUrlResponse, SignedUrlResponse__Output as _media_SignedUrlResponse__Output } from '../media/SignedUrlResponse';
+import type { UpdateMediaRequest as _media_UpdateMediaRequest, UpdateMediaRequest__Output as _media_UpdateMediaRequest__Output } from '../media/UpdateMediaRequest';
+import type { UploadMediaRequest as _media_UploadMediaRequest, UploadMediaRequest__Output as _media_UploadMediaRequest__Output } from '../media/UploadMediaRequest';
+
+export interface MediaServiceClient extends grpc.Client {
+  BatchGetMedia(argument: _media_BatchGetMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  BatchGetMedia(argument: _media_BatchGetMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  BatchGetMedia(argument: _media_BatchGetMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  BatchGetMedia(argument: _media_BatchGetMediaRequest, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  batchGetMedia(argument: _media_BatchGetMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  batchGetMedia(argument: _media_BatchGetMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  batchGetMedia(argument: _media_BatchGetMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  batchGetMedia(argument: _media_BatchGetMediaRequest, callback: grpc.requestCallback<_media_BatchGetMediaResponse__Output>): grpc.ClientUnaryCall;
+  
+  BulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  BulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  BulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  BulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  bulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  bulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  bulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  bulkDeleteMedia(argument: _media_BulkDeleteMediaRequest, callback: grpc.requestCallback<_media_BulkDeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  
+  DeleteMedia(argument: _media_DeleteMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  DeleteMedia(argument: _media_DeleteMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  DeleteMedia(argument: _media_DeleteMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  DeleteMedia(argument: _media_DeleteMediaRequest, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  deleteMedia(argument: _media_DeleteMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  deleteMedia(argument: _media_DeleteMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  deleteMedia(argument: _media_DeleteMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  deleteMedia(argument: _media_DeleteMediaRequest, callback: grpc.requestCallback<_media_DeleteMediaResponse__Output>): grpc.ClientUnaryCall;
+  
+  DownloadMedia(argument: _media_DownloadMediaRequest, metadata: grpc.Metadata, options?: grpc.CallOptions): grpc.ClientReadableStream<_media_DownloadMediaResponse__Output>;
+  DownloadMedia(argument: _media_DownloadMediaRequest, options?: grpc.CallOptions): grpc.ClientReadableStream<_media_DownloadMediaResponse__Output>;
+  downloadMedia(argument: _media_DownloadMediaRequest, metadata: grpc.Metadata, options?: grpc.CallOptions): grpc.ClientReadableStream<_media_DownloadMediaResponse__Output>;
+  downloadMedia(argument: _media_DownloadMediaRequest, options?: grpc.CallOptions): grpc.ClientReadableStream<_media_DownloadMediaResponse__Output>;
+  
+  GetMedia(argument: _media_GetMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  GetMedia(argument: _media_GetMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  GetMedia(argument: _media_GetMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  GetMedia(argument: _media_GetMediaRequest, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  getMedia(argument: _media_GetMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  getMedia(argument: _media_GetMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  getMedia(argument: _media_GetMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  getMedia(argument: _media_GetMediaRequest, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  
+  GetMediaByEntity(argument: _media_GetMediaByEntityRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  GetMediaByEntity(argument: _media_GetMediaByEntityRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  GetMediaByEntity(argument: _media_GetMediaByEntityRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  GetMediaByEntity(argument: _media_GetMediaByEntityRequest, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  getMediaByEntity(argument: _media_GetMediaByEntityRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  getMediaByEntity(argument: _media_GetMediaByEntityRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  getMediaByEntity(argument: _media_GetMediaByEntityRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  getMediaByEntity(argument: _media_GetMediaByEntityRequest, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  
+  GetMediaStatus(argument: _media_GetMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  GetMediaStatus(argument: _media_GetMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  GetMediaStatus(argument: _media_GetMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  GetMediaStatus(argument: _media_GetMediaRequest, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  getMediaStatus(argument: _media_GetMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  getMediaStatus(argument: _media_GetMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  getMediaStatus(argument: _media_GetMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  getMediaStatus(argument: _media_GetMediaRequest, callback: grpc.requestCallback<_media_MediaStatusResponse__Output>): grpc.ClientUnaryCall;
+  
+  GetSignedUrl(argument: _media_GetSignedUrlRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  GetSignedUrl(argument: _media_GetSignedUrlRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  GetSignedUrl(argument: _media_GetSignedUrlRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  GetSignedUrl(argument: _media_GetSignedUrlRequest, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  getSignedUrl(argument: _media_GetSignedUrlRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  getSignedUrl(argument: _media_GetSignedUrlRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  getSignedUrl(argument: _media_GetSignedUrlRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  getSignedUrl(argument: _media_GetSignedUrlRequest, callback: grpc.requestCallback<_media_SignedUrlResponse__Output>): grpc.ClientUnaryCall;
+  
+  QueryMedia(argument: _media_QueryMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  QueryMedia(argument: _media_QueryMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  QueryMedia(argument: _media_QueryMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  QueryMedia(argument: _media_QueryMediaRequest, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  queryMedia(argument: _media_QueryMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  queryMedia(argument: _media_QueryMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  queryMedia(argument: _media_QueryMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  queryMedia(argument: _media_QueryMediaRequest, callback: grpc.requestCallback<_media_QueryMediaResponse__Output>): grpc.ClientUnaryCall;
+  
+  ReorderMedia(argument: _media_ReorderMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  ReorderMedia(argument: _media_ReorderMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  ReorderMedia(argument: _media_ReorderMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  ReorderMedia(argument: _media_ReorderMediaRequest, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  reorderMedia(argument: _media_ReorderMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  reorderMedia(argument: _media_ReorderMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  reorderMedia(argument: _media_ReorderMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  reorderMedia(argument: _media_ReorderMediaRequest, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientUnaryCall;
+  
+  SetCoverMedia(argument: _media_SetCoverMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  SetCoverMedia(argument: _media_SetCoverMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  SetCoverMedia(argument: _media_SetCoverMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  SetCoverMedia(argument: _media_SetCoverMediaRequest, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  setCoverMedia(argument: _media_SetCoverMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  setCoverMedia(argument: _media_SetCoverMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  setCoverMedia(argument: _media_SetCoverMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  setCoverMedia(argument: _media_SetCoverMediaRequest, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  
+  UpdateMedia(argument: _media_UpdateMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  UpdateMedia(argument: _media_UpdateMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  UpdateMedia(argument: _media_UpdateMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  UpdateMedia(argument: _media_UpdateMediaRequest, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  updateMedia(argument: _media_UpdateMediaRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  updateMedia(argument: _media_UpdateMediaRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  updateMedia(argument: _media_UpdateMediaRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  updateMedia(argument: _media_UpdateMediaRequest, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientUnaryCall;
+  
+  UploadMedia(metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  UploadMedia(metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  UploadMedia(options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  UploadMedia(callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMedia(metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMedia(metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMedia(options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMedia(callback: grpc.requestCallback<_media_MediaResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  
+  UploadMultipleMedia(metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  UploadMultipleMedia(metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  UploadMultipleMedia(options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  UploadMultipleMedia(callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMultipleMedia(metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMultipleMedia(metadata: grpc.Metadata, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMultipleMedia(options: grpc.CallOptions, callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  uploadMultipleMedia(callback: grpc.requestCallback<_media_MediaListResponse__Output>): grpc.ClientWritableStream<_media_UploadMediaRequest>;
+  
+}
+
+export interface MediaServiceHandlers extends grpc.UntypedServiceImplementation {
+  BatchGetMedia: grpc.handleUnaryCall<_media_BatchGetMediaRequest__Output, _media_BatchGetMediaResponse>;
+  
+  BulkDeleteMedia: grpc.handleUnaryCall<_media_BulkDeleteMediaRequest__Output, _media_BulkDeleteMediaResponse>;
+  
+  DeleteMedia: grpc.handleUnaryCall<_media_DeleteMediaRequest__Output, _media_DeleteMediaResponse>;
+  
+  DownloadMedia: grpc.handleServerStreamingCall<_media_DownloadMediaRequest__Output, _media_DownloadMediaResponse>;
+  
+  GetMedia: grpc.handleUnaryCall<_media_GetMediaRequest__Output, _media_MediaResponse>;
+  
+  GetMediaByEntity: grpc.handleUnaryCall<_media_GetMediaByEntityRequest__Output, _media_MediaListResponse>;
+  
+  GetMediaStatus: grpc.handleUnaryCall<_media_GetMediaRequest__Output, _media_MediaStatusResponse>;
+  
+  GetSignedUrl: grpc.handleUnaryCall<_media_GetSignedUrlRequest__Output, _media_SignedUrlResponse>;
+  
+  QueryMedia: grpc.handleUnaryCall<_media_QueryMediaRequest__Output, _media_QueryMediaResponse>;
+  
+  ReorderMedia: grpc.handleUnaryCall<_media_ReorderMediaRequest__Output, _media_MediaListResponse>;
+  
+  SetCoverMedia: grpc.handleUnaryCall<_media_SetCoverMediaRequest__Output, _media_MediaResponse>;
+  
+  UpdateMedia: grpc.handleUnaryCall<_media_UpdateMediaRequest__Output, _media_MediaResponse>;
+  
+  UploadMedia: grpc.handleClientStreamingCall<_media_UploadMediaRequest__Output, _media_MediaResponse>;
+  
+  UploadMultipleMedia: grpc.handleClientStreamingCall<_media_UploadMediaRequest__Output, _media_MediaListResponse>;
+  
+}
+
+export interface MediaServiceDefinition extends grpc.ServiceDefinition {
+  BatchGetMedia: MethodDefinition<_media_BatchGetMediaRequest, _media_BatchGetMediaResponse, _media_BatchGetMediaRequest__Output, _media_BatchGetMediaResponse__Output>
+  BulkDeleteMedia: MethodDefinition<_media_BulkDeleteMediaRequest, _media_BulkDeleteMediaResponse, _media_BulkDeleteMediaRequest__Output, _media_BulkDeleteMediaResponse__Output>
+  DeleteMedia: MethodDefinition<_media_DeleteMediaRequest, _media_DeleteMediaResponse, _media_DeleteMediaRequest__Output, _media_DeleteMediaResponse__Output>
+  DownloadMedia: MethodDefinition<_media_DownloadMediaRequest, _media_DownloadMediaResponse, _media_DownloadMediaRequest__Output, _media_DownloadMediaResponse__Output>
+  GetMedia: MethodDefinition<_media_GetMediaRequest, _media_MediaResponse, _media_GetMediaRequest__Output, _media_MediaResponse__Output>
+  GetMediaByEntity: MethodDefinition<_media_GetMediaByEntityRequest, _media_MediaListResponse, _media_GetMediaByEntityRequest__Output, _media_MediaListResponse__Output>
+  GetMediaStatus: MethodDefinition<_media_GetMediaRequest, _media_MediaStatusResponse, _media_GetMediaRequest__Output, _media_MediaStatusResponse__Output>
+  GetSignedUrl: MethodDefinition<_media_GetSignedUrlRequest, _media_SignedUrlResponse, _media_GetSignedUrlRequest__Output, _media_SignedUrlResponse__Output>
+  QueryMedia: MethodDefinition<_media_QueryMediaRequest, _media_QueryMediaResponse, _media_QueryMediaRequest__Output, _media_QueryMediaResponse__Output>
+  ReorderMedia: MethodDefinition<_media_ReorderMediaRequest, _media_MediaListResponse, _media_ReorderMediaRequest__Output, _media_MediaListResponse__Output>
+  SetCoverMedia: MethodDefinition<_media_SetCoverMediaRequest, _media_MediaResponse, _media_SetCoverMediaRequest__Output, _media_MediaResponse__Output>
+  UpdateMedia: MethodDefinition<_media_UpdateMediaRequest, _media_MediaResponse, _media_UpdateMediaRequest__Output, _media_MediaResponse__Output>
+  UploadMedia: MethodDefinition<_media_UploadMediaRequest, _media_MediaResponse, _media_UploadMediaRequest__Output, _media_MediaResponse__Output>
+  UploadMultipleMedia: MethodDefinition<_media_UploadMediaRequest, _media_MediaListResponse, _media_UploadMediaRequest__Output, _media_MediaListResponse__Output>
+}
@@ -0,0 +1,20 @@
+// Original file: proto/media.proto
+
+
+export interface MediaStatus {
+  'id'?: (string);
+  'status'?: (string);
+  'processingError'?: (string);
+  'processingAttempts'?: (number);
+  'isProcessed'?: (boolean);
+  '_processingError'?: "processingError";
+}
+
+export interface MediaStatus__Output {
+  'id': (string);
+  'status': (string);
+  'processingError'?: (string);
+  'processingAttempts': (number);
+  'isProcessed': (boolean);
+  '_processingError'?: "processingError";
+}
@@ -0,0 +1,19 @@
+// Original file: proto/media.proto
+
+import type { MediaStatus as _media_MediaStatus, MediaStatus__Output as _media_MediaStatus__Output } from '../media/MediaStatus';
+
+export interface MediaStatusResponse {
+  'success'?: (boolean);
+  'message'?: (string);
+  'data'?: (_media_MediaStatus | null);
+  '_message'?: "message";
+  '_data'?: "data";
+}
+
+export interface MediaStatusResponse__Output {
+  'success': (boolean);
+  'message'?: (string);
+  'data'?: (_media_MediaStatus__Output | null);
+  '_message'?: "message";
+  '_data'?: "data";
+}
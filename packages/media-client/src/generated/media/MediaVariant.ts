@@ -0,0 +1,16 @@
+// Original file: proto/media.proto
+
+
+export interface MediaVariant {
+  'name'?: (string);
+  'url'?: (string);
+  'width'?: (number);
+  'height'?: (number);
+}
+
+export interface MediaVariant__Output {
+  'name': (string);
+  'url': (string);
+  'width': (number);
+  'height': (number);
+}
@@ -0,0 +1,50 @@
+// Original file: proto/media.proto
+
+
+export interface QueryMediaRequest {
+  'entityType'?: (string);
+  'entityId'?: (string);
+  'fieldName'?: (string);
+  'uploadedBy'?: (string);
+  'type'?: (string);
+  'status'?: (string);
+  'isActive'?: (boolean);
+  'limit'?: (number);
+  'cursor'?: (string);
+  'sortBy'?: (string);
+  'sortOrder'?: (string);
+  '_entityType'?: "entityType";
+  '_entityId'?: "entityId";
+  '_fieldName'?: "fieldName";
+  '_uploadedBy'?: "uploadedBy";
+  '_type'?: "type";
+  '_status'?: "status";
+  '_isActive'?: "isActive";
+  '_cursor'?: "cursor";
+  '_sortBy'?: "sortBy";
+  '_sortOrder'?: "sortOrder";
+}
+
+export interface QueryMediaRequest__Output {
+  'entityType'?: (string);
+  'entityId'?: (string);
+  'fieldName'?: (string);
+  'uploadedBy'?: (string);
+  'type'?: (string);
+  'status'?: (string);
+  'isActive'?: (boolean);
+  'limit': (number);
+  'cursor'?: (string);
+  'sortBy'?: (string);
+  'sortOrder'?: (string);
+  '_entityType'?: "entityType";
+  '_entityId'?: "entityId";
+  '_fieldName'?: "fieldName";
+  '_uploadedBy'?: "uploadedBy";
+  '_type'?: "type";
+  '_status'?: "status";
+  '_isActive'?: "isActive";
+  '_cursor'?: "cursor";
+  '_sortBy'?: "sortBy";
+  '_sortOrder'?: "sortOrder";
+}
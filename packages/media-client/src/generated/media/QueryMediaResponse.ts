@@ -0,0 +1,25 @@
+// Original file: proto/media.proto
+
+import type { Media as _media_Media, Media__Output as _media_Media__Output } from '../media/Media';
+
+export interface QueryMediaResponse {
+  'success'?: (boolean);
+  'message'?: (string);
+  'data'?: (_media_Media)[];
+  'total'?: (number);
+  'nextCursor'?: (string);
+  'hasMore'?: (boolean);
+  '_message'?: "message";
+  '_nextCursor'?: "nextCursor";
+}
+
+export interface QueryMediaResponse__Output {
+  'success': (boolean);
+  'message'?: (string);
+  'data': (_media_Media__Output)[];
+  'total': (number);
+  'nextCursor'?: (string);
+  'hasMore': (boolean);
+  '_message'?: "message";
+  '_nextCursor'?: "nextCursor";
+}
@@ -0,0 +1,16 @@
+// Original file: proto/media.proto
+
+
+export interface ReorderMediaRequest {
+  'entityType'?: (string);
+  'entityId'?: (string);
+  'fieldName'?: (string);
+  'ids'?: (string)[];
+}
+
+export interface ReorderMediaRequest__Output {
+  'entityType': (string);
+  'entityId': (string);
+  'fieldName': (string);
+  'ids': (string)[];
+}
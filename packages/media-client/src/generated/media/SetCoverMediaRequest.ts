@@ -0,0 +1,10 @@
+// Original file: proto/media.proto
+
+
+export interface SetCoverMediaRequest {
+  'id'?: (string);
+}
+
+export interface SetCoverMediaRequest__Output {
+  'id': (string);
+}
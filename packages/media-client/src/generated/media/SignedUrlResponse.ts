@@ -0,0 +1,12 @@
+// Original file: proto/media.proto
+
+
+export interface SignedUrlResponse {
+  'success'?: (boolean);
+  'url'?: (string);
+}
+
+export interface SignedUrlResponse__Output {
+  'success': (boolean);
+  'url': (string);
+}
@@ -0,0 +1,26 @@
+// Original file: proto/media.proto
+
+
+export interface UpdateMediaRequest {
+  'id'?: (string);
+  'isActive'?: (boolean);
+  'isProcessed'?: (boolean);
+  'alt'?: (string);
+  'caption'?: (string);
+  '_isActive'?: "isActive";
+  '_isProcessed'?: "isProcessed";
+  '_alt'?: "alt";
+  '_caption'?: "caption";
+}
+
+export interface UpdateMediaRequest__Output {
+  'id': (string);
+  'isActive'?: (boolean);
+  'isProcessed'?: (boolean);
+  'alt'?: (string);
+  'caption'?: (string);
+  '_isActive'?: "isActive";
+  '_isProcessed'?: "isProcessed";
+  '_alt'?: "alt";
+  '_caption'?: "caption";
+}
@@ -0,0 +1,22 @@
+// Original file: proto/media.proto
+
+
+export interface UploadMediaMetadata {
+  'entityType'?: (string);
+  'entityId'?: (string);
+  'fieldName'?: (string);
+  'fileName'?: (string);
+  'mimeType'?: (string);
+  'visibility'?: (string);
+  '_visibility'?: "visibility";
+}
+
+export interface UploadMediaMetadata__Output {
+  'entityType': (string);
+  'entityId': (string);
+  'fieldName': (string);
+  'fileName': (string);
+  'mimeType': (string);
+  'visibility'?: (string);
+  '_visibility'?: "visibility";
+}
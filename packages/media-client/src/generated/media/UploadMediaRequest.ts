@@ -0,0 +1,15 @@
+// Original file: proto/media.proto
+
+import type { UploadMediaMetadata as _media_UploadMediaMetadata, UploadMediaMetadata__Output as _media_UploadMediaMetadata__Output } from '../media/UploadMediaMetadata';
+
+export interface UploadMediaRequest {
+  'metadata'?: (_media_UploadMediaMetadata | null);
+  'chunk'?: (Buffer | Uint8Array | string);
+  'data'?: "metadata"|"chunk";
+}
+
+export interface UploadMediaRequest__Output {
+  'metadata'?: (_media_UploadMediaMetadata__Output | null);
+  'chunk'?: (Buffer);
+  'data'?: "metadata"|"chunk";
+}
@@ -0,0 +1,45 @@
+import type * as grpc from '@grpc/grpc-js';
+import type { MessageTypeDefinition } from '@grpc/proto-loader';
+
+import type { MediaEventReceiverClient as _media_MediaEventReceiverClient, MediaEventReceiverDefinition as _media_MediaEventReceiverDefinition } from './media/MediaEventReceiver';
+import type { MediaServiceClient as _media_MediaServiceClient, MediaServiceDefinition as _media_MediaServiceDefinition } from './media/MediaService';
+
+type SubtypeConstructor<Constructor extends new (...args: any) => any, Subtype> = {
+  new(...args: ConstructorParameters<Constructor>): Subtype;
+};
+
+export interface ProtoGrpcType {
+  media: {
+    BatchGetMediaRequest: MessageTypeDefinition
+    BatchGetMediaResponse: MessageTypeDefinition
+    BulkDeleteMediaRequest: MessageTypeDefinition
+    BulkDeleteMediaResponse: MessageTypeDefinition
+    DeleteMediaRequest: MessageTypeDefinition
+    DeleteMediaResponse: MessageTypeDefinition
+    DownloadMediaInfo: MessageTypeDefinition
+    DownloadMediaRequest: MessageTypeDefinition
+    DownloadMediaResponse: MessageTypeDefinition
+    GetMediaByEntityRequest: MessageTypeDefinition
+    GetMediaRequest: MessageTypeDefinition
+    GetSignedUrlRequest: MessageTypeDefinition
+    Media: MessageTypeDefinition
+    MediaEvent: MessageTypeDefinition
+    MediaEventAck: MessageTypeDefinition
+    MediaEventReceiver: SubtypeConstructor<typeof grpc.Client, _media_MediaEventReceiverClient> & { service: _media_MediaEventReceiverDefinition }
+    MediaListResponse: MessageTypeDefinition
+    MediaResponse: MessageTypeDefinition
+    MediaService: SubtypeConstructor<typeof grpc.Client, _media_MediaServiceClient> & { service: _media_MediaServiceDefinition }
+    MediaStatus: MessageTypeDefinition
+    MediaStatusResponse: MessageTypeDefinition
+    MediaVariant: MessageTypeDefinition
+    QueryMediaRequest: MessageTypeDefinition
+    QueryMediaResponse: MessageTypeDefinition
+    ReorderMediaRequest: MessageTypeDefinition
+    SetCoverMediaRequest: MessageTypeDefinition
+    SignedUrlResponse: MessageTypeDefinition
+    UpdateMediaRequest: MessageTypeDefinition
+    UploadMediaMetadata: MessageTypeDefinition
+    UploadMediaRequest: MessageTypeDefinition
+  }
+}
+
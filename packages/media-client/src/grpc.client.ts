@@ -0,0 +1,395 @@
+import path from "path";
+import { once } from "events";
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import { MediaClientError } from "./errors";
+import { withRetry } from "./retry";
+import type { RetryOptions } from "./retry";
+import { resolveToken } from "./auth";
+import type { TokenProvider, UploadFile, UploadOptions } from "./types";
+import type { ProtoGrpcType } from "./generated/media";
+import type { MediaServiceClient } from "./generated/media/MediaService";
+import type { Media__Output } from "./generated/media/Media";
+import type { MediaResponse__Output } from "./generated/media/MediaResponse";
+import type { MediaListResponse__Output } from "./generated/media/MediaListResponse";
+import type { MediaStatus__Output } from "./generated/media/MediaStatus";
+import type { MediaStatusResponse__Output } from "./generated/media/MediaStatusResponse";
+import type { DeleteMediaResponse__Output } from "./generated/media/DeleteMediaResponse";
+import type { SignedUrlResponse__Output } from "./generated/media/SignedUrlResponse";
+import type { QueryMediaRequest } from "./generated/media/QueryMediaRequest";
+import type { QueryMediaResponse__Output } from "./generated/media/QueryMediaResponse";
+import type { BatchGetMediaResponse__Output } from "./generated/media/BatchGetMediaResponse";
+import type { UpdateMediaRequest } from "./generated/media/UpdateMediaRequest";
+import type { BulkDeleteMediaResponse__Output } from "./generated/media/BulkDeleteMediaResponse";
+import type { DownloadMediaRequest } from "./generated/media/DownloadMediaRequest";
+import type { DownloadMediaInfo__Output } from "./generated/media/DownloadMediaInfo";
+import type { UploadMediaRequest } from "./generated/media/UploadMediaRequest";
+
+// Shipped with the package; kept in sync with the service by `npm run generate`
+const PROTO_PATH = path.join(__dirname, "../proto/media.proto");
+
+// Must match the service's loader options; the generated types assume them
+const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
+  keepCase: false,
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true,
+});
+
+const mediaProto = grpc.loadPackageDefinition(
+  packageDefinition
+) as unknown as ProtoGrpcType;
+
+// Transient failures; DEADLINE_EXCEEDED only counts for reads (see unary)
+const RETRYABLE_CODES = [
+  grpc.status.UNAVAILABLE,
+  grpc.status.RESOURCE_EXHAUSTED,
+];
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+export interface MediaGrpcClientOptions {
+  address: string; // e.g. media-service:50053
+  credentials?: grpc.ChannelCredentials; // Insecure by default
+  token?: TokenProvider;
+  deadlineMs?: number; // Per attempt (default 10s)
+  streamDeadlineMs?: number; // Uploads and downloads (default 2 minutes)
+  retry?: RetryOptions;
+  channelOptions?: grpc.ChannelOptions;
+}
+
+export interface DownloadOptions {
+  variant?: string; // Variant name, or "original"
+  rangeStart?: number;
+  rangeEnd?: number; // Inclusive
+}
+
+export interface DownloadedMedia {
+  info: DownloadMediaInfo__Output;
+  data: Buffer;
+}
+
+type UnaryCall<T> = (
+  metadata: grpc.Metadata,
+  options: grpc.CallOptions,
+  callback: grpc.requestCallback<T>
+) => grpc.ClientUnaryCall;
+
+export class MediaGrpcClient {
+  private client: MediaServiceClient;
+  private options: MediaGrpcClientOptions;
+
+  constructor(options: MediaGrpcClientOptions) {
+    this.options = options;
+    this.client = new mediaProto.media.MediaService(
+      options.address,
+      options.credentials ?? grpc.credentials.createInsecure(),
+      options.channelOptions
+    );
+  }
+
+  async getMedia(id: string): Promise<Media__Output> {
+    const response = await this.unary<MediaResponse__Output>(
+      true,
+      (metadata, options, callback) =>
+        this.client.getMedia({ id }, metadata, options, callback)
+    );
+    return this.unwrap(response.data);
+  }
+
+  async getMediaStatus(id: string): Promise<MediaStatus__Output> {
+    const response = await this.unary<MediaStatusResponse__Output>(
+      true,
+      (metadata, options, callback) =>
+        this.client.getMediaStatus({ id }, metadata, options, callback)
+    );
+    return this.unwrap(response.data);
+  }
+
+  async getMediaByEntity(
+    entityType: string,
+    entityId: string,
+    fieldName?: string
+  ): Promise<Media__Output[]> {
+    const response = await this.unary<MediaListResponse__Output>(
+      true,
+      (metadata, options, callback) =>
+        this.client.getMediaByEntity(
+          { entityType, entityId, fieldName },
+          metadata,
+          options,
+          callback
+        )
+    );
+    return response.data;
+  }
+
+  queryMedia(
+    query: QueryMediaRequest = {}
+  ): Promise<QueryMediaResponse__Output> {
+    return this.unary<QueryMediaResponse__Output>(
+      true,
+      (metadata, options, callback) =>
+        this.client.queryMedia(query, metadata, options, callback)
+    );
+  }
+
+  batchGetMedia(ids: string[]): Promise<BatchGetMediaResponse__Output> {
+    return this.unary<BatchGetMediaResponse__Output>(
+      true,
+      (metadata, options, callback) =>
+        this.client.batchGetMedia({ ids }, metadata, options, callback)
+    );
+  }
+
+  async updateMedia(
+    id: string,
+    update: Omit<UpdateMediaRequest, "id">
+  ): Promise<Media__Output> {
+    const response = await this.unary<MediaResponse__Output>(
+      false,
+      (metadata, options, callback) =>
+        this.client.updateMedia({ ...update, id }, metadata, options, callback)
+    );
+    return this.unwrap(response.data);
+  }
+
+  async reorderMedia(
+    entityType: string,
+    entityId: string,
+    fieldName: string,
+    ids: string[]
+  ): Promise<Media__Output[]> {
+    const response = await this.unary<MediaListResponse__Output>(
+      false,
+      (metadata, options, callback) =>
+        this.client.reorderMedia(
+          { entityType, entityId, fieldName, ids },
+          metadata,
+          options,
+          callback
+        )
+    );
+    return response.data;
+  }
+
+  async setCover(id: string): Promise<Media__Output> {
+    const response = await this.unary<MediaResponse__Output>(
+      false,
+      (metadata, options, callback) =>
+        this.client.setCoverMedia({ id }, metadata, options, callback)
+    );
+    return this.unwrap(response.data);
+  }
+
+  async deleteMedia(id: string): Promise<void> {
+    await this.unary<DeleteMediaResponse__Output>(
+      false,
+      (metadata, options, callback) =>
+        this.client.deleteMedia({ id }, metadata, options, callback)
+    );
+  }
+
+  bulkDeleteMedia(
+    ids: string[],
+    permanent = false
+  ): Promise<BulkDeleteMediaResponse__Output> {
+    return this.unary<BulkDeleteMediaResponse__Output>(
+      false,
+      (metadata, options, callback) =>
+        this.client.bulkDeleteMedia(
+          { ids, permanent },
+          metadata,
+          options,
+          callback
+        )
+    );
+  }
+
+  async getSignedUrl(
+    id: string,
+    expiresIn = 3600,
+    disposition?: "inline" | "attachment"
+  ): Promise<string> {
+    const response = await this.unary<SignedUrlResponse__Output>(
+      true,
+      (metadata, options, callback) =>
+        this.client.getSignedUrl(
+          { id, expiresIn, disposition },
+          metadata,
+          options,
+          callback
+        )
+    );
+    return response.url;
+  }
+
+  async uploadFile(
+    file: UploadFile,
+    options: UploadOptions
+  ): Promise<Media__Output> {
+    const metadata = await this.createMetadata();
+    const response = await new Promise<MediaResponse__Output | undefined>(
+      (resolve, reject) => {
+        const call = this.client.uploadMedia(
+          metadata,
+          { deadline: this.streamDeadline() },
+          (error, result) =>
+            error
+              ? reject(MediaClientError.fromServiceError(error))
+              : resolve(result)
+        );
+        this.writeUploads(call, [file], options).catch(reject);
+      }
+    );
+    return this.unwrap(response?.data);
+  }
+
+  async uploadFiles(
+    files: UploadFile[],
+    options: UploadOptions
+  ): Promise<Media__Output[]> {
+    const metadata = await this.createMetadata();
+    const response = await new Promise<MediaListResponse__Output | undefined>(
+      (resolve, reject) => {
+        const call = this.client.uploadMultipleMedia(
+          metadata,
+          { deadline: this.streamDeadline() },
+          (error, result) =>
+            error
+              ? reject(MediaClientError.fromServiceError(error))
+              : resolve(result)
+        );
+        this.writeUploads(call, files, options).catch(reject);
+      }
+    );
+    return response?.data ?? [];
+  }
+
+  /**
+   * Download a file, or a byte range of it, into memory. Large files are
+   * better fetched through a signed URL.
+   */
+  async downloadMedia(
+    id: string,
+    options: DownloadOptions = {}
+  ): Promise<DownloadedMedia> {
+    const request: DownloadMediaRequest = { id, ...options };
+    const call = this.client.downloadMedia(
+      request,
+      await this.createMetadata(),
+      {
+        deadline: this.streamDeadline(),
+      }
+    );
+
+    let info: DownloadMediaInfo__Output | undefined;
+    const chunks: Buffer[] = [];
+    try {
+      for await (const message of call) {
+        if (message.info) info = message.info;
+        if (message.chunk) chunks.push(message.chunk);
+      }
+    } catch (error) {
+      throw MediaClientError.fromServiceError(error as grpc.ServiceError);
+    }
+
+    return { info: this.unwrap(info), data: Buffer.concat(chunks) };
+  }
+
+  close(): void {
+    this.client.close();
+  }
+
+  /**
+   * Run a unary call with a fresh deadline and token per attempt. Reads
+   * are also retried when a deadline passes; writes are not, since the
+   * service may have applied them.
+   */
+  private unary<T>(read: boolean, call: UnaryCall<T>): Promise<T> {
+    const attempt = async (): Promise<T> => {
+      const metadata = await this.createMetadata();
+      return new Promise<T>((resolve, reject) => {
+        call(
+          metadata,
+          { deadline: Date.now() + (this.options.deadlineMs ?? 10_000) },
+          (error, response) => {
+            if (error) {
+              reject(MediaClientError.fromServiceError(error));
+              return;
+            }
+            resolve(response as T);
+          }
+        );
+      });
+    };
+
+    return withRetry(
+      attempt,
+      (error) =>
+        error instanceof MediaClientError &&
+        error.code !== undefined &&
+        (RETRYABLE_CODES.includes(error.code) ||
+          (read && error.code === grpc.status.DEADLINE_EXCEEDED)),
+      this.options.retry
+    );
+  }
+
+  // Each file is a metadata message followed by its chunks
+  private async writeUploads(
+    call: grpc.ClientWritableStream<UploadMediaRequest>,
+    files: UploadFile[],
+    options: UploadOptions
+  ): Promise<void> {
+    for (const file of files) {
+      await this.write(call, {
+        metadata: {
+          entityType: options.entityType,
+          entityId: options.entityId,
+          fieldName: options.fieldName,
+          visibility: options.visibility,
+          fileName: file.fileName,
+          mimeType: file.mimeType,
+        },
+      });
+      for (
+        let offset = 0;
+        offset < file.data.length;
+        offset += UPLOAD_CHUNK_SIZE
+      ) {
+        await this.write(call, {
+          chunk: file.data.subarray(offset, offset + UPLOAD_CHUNK_SIZE),
+        });
+      }
+    }
+    call.end();
+  }
+
+  private async write(
+    call: grpc.ClientWritableStream<UploadMediaRequest>,
+    message: UploadMediaRequest
+  ): Promise<void> {
+    if (!call.write(message)) {
+      await once(call, "drain");
+    }
+  }
+
+  private async createMetadata(): Promise<grpc.Metadata> {
+    const metadata = new grpc.Metadata();
+    const token = await resolveToken(this.options.token);
+    if (token) metadata.set("authorization", `Bearer ${token}`);
+    return metadata;
+  }
+
+  private streamDeadline(): number {
+    return Date.now() + (this.options.streamDeadlineMs ?? 120_000);
+  }
+
+  private unwrap<T>(value: T | null | undefined): T {
+    if (value === null || value === undefined) {
+      throw new MediaClientError("Response has no data", {});
+    }
+    return value;
+  }
+}
@@ -0,0 +1,205 @@
+import { MediaClientError } from "./errors";
+import type { FieldError } from "./errors";
+import { withRetry } from "./retry";
+import type { RetryOptions } from "./retry";
+import { resolveToken } from "./auth";
+import type {
+  TokenProvider,
+  MediaRecord,
+  MediaStatusInfo,
+  MediaPage,
+  MediaQuery,
+  UploadOptions,
+  UploadFile,
+  EntityType,
+} from "./types";
+
+// Where the service mounts its REST API
+export const MEDIA_API_PATH = "/v1/api/media";
+
+// Gateway and throttling responses; the request never reached a handler
+const RETRYABLE_HTTP_STATUSES = [408, 429, 502, 503, 504];
+
+export interface MediaHttpClientOptions {
+  baseUrl: string; // e.g. http://media-service:3003
+  token?: TokenProvider;
+  timeoutMs?: number; // Per attempt (default 10s; uploads 2 minutes)
+  uploadTimeoutMs?: number;
+  retry?: RetryOptions;
+}
+
+interface RequestOptions {
+  method?: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: FormData;
+  timeoutMs: number;
+  retry: boolean; // Only reads are retried
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errors?: FieldError[];
+}
+
+type PageResponse = ApiResponse<MediaRecord[]> & Omit<MediaPage, "data">;
+
+export class MediaHttpClient {
+  private baseUrl: string;
+  private options: MediaHttpClientOptions;
+
+  constructor(options: MediaHttpClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "") + MEDIA_API_PATH;
+    this.options = options;
+  }
+
+  async uploadFile(
+    file: UploadFile,
+    options: UploadOptions
+  ): Promise<MediaRecord> {
+    const form = this.createUploadForm(options);
+    form.append("file", this.toBlob(file), file.fileName);
+
+    const response = await this.request<MediaRecord>("/upload", {
+      method: "POST",
+      body: form,
+      timeoutMs: this.options.uploadTimeoutMs ?? 120_000,
+      retry: false,
+    });
+    return this.unwrap(response);
+  }
+
+  async uploadFiles(
+    files: UploadFile[],
+    options: UploadOptions
+  ): Promise<MediaRecord[]> {
+    const form = this.createUploadForm(options);
+    for (const file of files) {
+      form.append("files", this.toBlob(file), file.fileName);
+    }
+
+    const response = await this.request<MediaRecord[]>("/upload/multiple", {
+      method: "POST",
+      body: form,
+      timeoutMs: this.options.uploadTimeoutMs ?? 120_000,
+      retry: false,
+    });
+    return this.unwrap(response);
+  }
+
+  async getMedia(id: string): Promise<MediaRecord> {
+    return this.unwrap(
+      await this.get<MediaRecord>(`/${encodeURIComponent(id)}`)
+    );
+  }
+
+  async getMediaStatus(id: string): Promise<MediaStatusInfo> {
+    return this.unwrap(
+      await this.get<MediaStatusInfo>(`/${encodeURIComponent(id)}/status`)
+    );
+  }
+
+  async getMediaByEntity(
+    entityType: EntityType,
+    entityId: string,
+    fieldName?: string
+  ): Promise<MediaRecord[]> {
+    const path = `/entity/${entityType}/${encodeURIComponent(entityId)}`;
+    return this.unwrap(await this.get<MediaRecord[]>(path, { fieldName }));
+  }
+
+  async queryMedia(query: MediaQuery = {}): Promise<MediaPage> {
+    // The list route spreads the page into the response body
+    const response = (await this.get<MediaRecord[]>("/", {
+      ...query,
+    })) as PageResponse;
+    return {
+      data: this.unwrap(response),
+      total: response.total,
+      page: response.page,
+      limit: response.limit,
+      totalPages: response.totalPages,
+    };
+  }
+
+  private get<T>(
+    path: string,
+    query?: RequestOptions["query"]
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>(path, {
+      query,
+      timeoutMs: this.options.timeoutMs ?? 10_000,
+      retry: true,
+    });
+  }
+
+  private async request<T>(
+    path: string,
+    options: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    const url = new URL(this.baseUrl + path);
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) url.searchParams.set(name, String(value));
+    }
+
+    const attempt = async (): Promise<ApiResponse<T>> => {
+      const headers: Record<string, string> = { Accept: "application/json" };
+      const token = await resolveToken(this.options.token);
+      if (token) headers.Authorization = `Bearer ${token}`;
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: options.method ?? "GET",
+          headers,
+          body: options.body,
+          signal: AbortSignal.timeout(options.timeoutMs),
+        });
+      } catch (error) {
+        // Timeouts and connection failures carry no HTTP status
+        throw new MediaClientError((error as Error).message, {});
+      }
+
+      const body = (await response.json().catch(() => ({}))) as ApiResponse<T>;
+      if (!response.ok || body.success === false) {
+        throw new MediaClientError(
+          body.message || `Request failed with status ${response.status}`,
+          { httpStatus: response.status, errors: body.errors }
+        );
+      }
+      return body;
+    };
+
+    if (!options.retry) return attempt();
+    return withRetry(attempt, isRetryableHttpError, this.options.retry);
+  }
+
+  private unwrap<T>(response: ApiResponse<T>): T {
+    if (response.data === undefined) {
+      throw new MediaClientError("Response has no data", {});
+    }
+    return response.data;
+  }
+
+  private createUploadForm(options: UploadOptions): FormData {
+    const form = new FormData();
+    form.append("entityType", options.entityType);
+    form.append("entityId", options.entityId);
+    form.append("fieldName", options.fieldName);
+    if (options.visibility) form.append("visibility", options.visibility);
+    return form;
+  }
+
+  private toBlob(file: UploadFile): Blob {
+    return new Blob([file.data], { type: file.mimeType });
+  }
+}
+
+function isRetryableHttpError(error: unknown): boolean {
+  if (!(error instanceof MediaClientError)) return false;
+  return (
+    error.httpStatus === undefined ||
+    RETRYABLE_HTTP_STATUSES.includes(error.httpStatus)
+  );
+}
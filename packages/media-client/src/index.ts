@@ -0,0 +1,30 @@
+export { MediaGrpcClient } from "./grpc.client";
+export type {
+  MediaGrpcClientOptions,
+  DownloadOptions,
+  DownloadedMedia,
+} from "./grpc.client";
+export { MediaHttpClient, MEDIA_API_PATH } from "./http.client";
+export type { MediaHttpClientOptions } from "./http.client";
+export { MediaClientError } from "./errors";
+export type { FieldError } from "./errors";
+export { withRetry } from "./retry";
+export type { RetryOptions } from "./retry";
+export type * from "./types";
+
+// gRPC messages, generated from proto/media.proto
+export type { Media__Output as GrpcMedia } from "./generated/media/Media";
+export type { MediaVariant__Output as GrpcMediaVariant } from "./generated/media/MediaVariant";
+export type { MediaStatus__Output as GrpcMediaStatus } from "./generated/media/MediaStatus";
+export type { QueryMediaRequest as GrpcMediaQuery } from "./generated/media/QueryMediaRequest";
+export type { QueryMediaResponse__Output as GrpcMediaPage } from "./generated/media/QueryMediaResponse";
+export type { BatchGetMediaResponse__Output as GrpcBatchGetMediaResult } from "./generated/media/BatchGetMediaResponse";
+export type { BulkDeleteMediaResponse__Output as GrpcBulkDeleteResult } from "./generated/media/BulkDeleteMediaResponse";
+export type { DownloadMediaInfo__Output as GrpcDownloadInfo } from "./generated/media/DownloadMediaInfo";
+export type { UpdateMediaRequest as GrpcMediaUpdate } from "./generated/media/UpdateMediaRequest";
+export type { ProtoGrpcType } from "./generated/media";
+
+// Pushed to consumers implementing MediaEventReceiver (proto/media_events.proto)
+export type { MediaEvent__Output as GrpcMediaEvent } from "./generated/media/MediaEvent";
+export type { MediaEventReceiverHandlers } from "./generated/media/MediaEventReceiver";
+export type { ProtoGrpcType as MediaEventsProtoGrpcType } from "./generated/media_events";
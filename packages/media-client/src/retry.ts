@@ -0,0 +1,33 @@
+export interface RetryOptions {
+  maxAttempts?: number; // Including the first attempt (default 3)
+  initialDelayMs?: number; // Default 100
+  maxDelayMs?: number; // Default 2000
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run an operation until it succeeds, it fails with an error `isRetryable`
+ * rejects, or attempts run out. Delays grow exponentially with full jitter
+ * so clients recovering from the same outage do not retry in lockstep.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  isRetryable: (error: unknown) => boolean,
+  options: RetryOptions = {}
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const initialDelayMs = options.initialDelayMs ?? 100;
+  const maxDelayMs = options.maxDelayMs ?? 2000;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error)) throw error;
+      const ceiling = Math.min(maxDelayMs, initialDelayMs * 2 ** (attempt - 1));
+      await sleep(Math.random() * ceiling);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+// Shapes of the REST API's JSON responses (the service's IMedia as serialized)
+
+export type MediaType = "image" | "video" | "document";
+// Built-in entity types; the service can be configured with more
+export type EntityType =
+  | "user"
+  | "property"
+  | "agency"
+  | "development"
+  | "listing"
+  | "review"
+  | "chat_message"
+  | (string & {});
+export type MediaStatus = "pending" | "processing" | "ready" | "failed";
+export type MediaVisibility = "public" | "private";
+export type StorageProvider = "s3" | "cloudinary" | "local";
+
+// A static bearer token, or a function returning a fresh one per call
+export type TokenProvider = string | (() => string | Promise<string>);
+
+export interface MediaDimensions {
+  width: number;
+  height: number;
+}
+
+export interface MediaThumbnail {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface MediaStreamingRendition {
+  name: string;
+  width: number;
+  height: number;
+  bandwidth: number;
+}
+
+export interface MediaStreaming {
+  hlsUrl?: string; // Omitted for private media
+  hlsPath: string;
+  renditions: MediaStreamingRendition[];
+}
+
+export interface MediaVariant {
+  name: string;
+  url?: string; // Omitted for private media
+  key: string;
+  width: number;
+  height: number;
+}
+
+export interface MediaOriginal {
+  key: string;
+  url?: string; // Omitted for private media
+  mimeType: string;
+  size: number;
+  dimensions?: MediaDimensions;
+  duration?: number;
+  format?: string;
+}
+
+export interface MediaScan {
+  status: "clean" | "infected";
+  scanner: string;
+  signature?: string;
+  scannedAt: string;
+}
+
+export interface MediaMetadata {
+  originalName: string;
+  mimeType: string;
+  size: number;
+  dimensions?: MediaDimensions;
+  duration?: number;
+  format?: string;
+}
+
+export interface MediaRecord {
+  id: string;
+  fileName: string;
+  url?: string; // Omitted for private and quarantined media
+  thumbnail?: MediaThumbnail;
+  variants: MediaVariant[];
+  type: MediaType;
+  metadata: MediaMetadata;
+  original?: MediaOriginal;
+  streaming?: MediaStreaming;
+  entityType: EntityType;
+  entityId: string;
+  fieldName: string;
+  alt?: string;
+  caption?: string;
+  order: number;
+  isCover: boolean;
+  uploadedBy: string;
+  storageProvider: StorageProvider;
+  storagePath: string;
+  contentHash?: string;
+  scan?: MediaScan;
+  isQuarantined: boolean;
+  visibility: MediaVisibility;
+  status: MediaStatus;
+  processingError?: string;
+  processingAttempts: number;
+  isProcessed: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MediaStatusInfo {
+  id: string;
+  status: MediaStatus;
+  processingError?: string;
+  processingAttempts: number;
+  isProcessed: boolean;
+}
+
+export interface MediaPage {
+  data: MediaRecord[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface UploadOptions {
+  entityType: EntityType;
+  entityId: string;
+  fieldName: string;
+  visibility?: MediaVisibility;
+}
+
+export interface UploadFile {
+  data: Buffer | Uint8Array;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface MediaQuery {
+  entityType?: EntityType;
+  entityId?: string;
+  fieldName?: string;
+  uploadedBy?: string;
+  type?: MediaType;
+  status?: MediaStatus;
+  isActive?: boolean;
+  page?: number;
+  limit?: number; // Maximum 100
+}
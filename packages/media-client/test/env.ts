@@ -0,0 +1,3 @@
+// Imported before the service modules, whose config reads the environment on load
+export const JWT_SECRET = "contract-test-secret";
+process.env.JWT_SECRET = JWT_SECRET;
@@ -0,0 +1,233 @@
+/**
+ * Runs MediaGrpcClient against the service's own gRPC handlers, auth
+ * interceptor and proto, served in-process. The media service is stubbed,
+ * so no database or storage is needed. Run from the repository root:
+ * the service loads its protos relative to the working directory.
+ */
+import { JWT_SECRET } from "./env";
+import { after, before, afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import * as grpc from "@grpc/grpc-js";
+import { SignJWT } from "jose";
+import { MediaGrpcClient, MediaClientError } from "../src";
+import { mediaService } from "../../../src/v1/feat/media/media.service";
+import { MediaService } from "../../../src/grpc/index";
+import { mediaGrpcService } from "../../../src/grpc/servers/media.server";
+import { authInterceptor } from "../../../src/grpc/interceptors/auth.interceptor";
+import { NotFoundError } from "../../../src/middlewares/error.middleware";
+import type { IMedia } from "../../../src/v1/feat/media/media.type";
+
+const media = {
+  id: "65f000000000000000000001",
+  fileName: "front.jpg",
+  url: "https://cdn.example.com/property/1/images/front.webp",
+  type: "image",
+  metadata: {
+    originalName: "front.jpg",
+    mimeType: "image/jpeg",
+    size: 2048,
+    dimensions: { width: 1600, height: 1200 },
+  },
+  variants: [
+    {
+      name: "thumb",
+      url: "https://cdn.example.com/thumb.webp",
+      width: 320,
+      height: 240,
+    },
+  ],
+  entityType: "property",
+  entityId: "1",
+  fieldName: "images",
+  uploadedBy: "user-1",
+  storageProvider: "local",
+  storagePath: "property/1/images/front.jpg",
+  status: "ready",
+  isProcessed: true,
+  isActive: true,
+  order: 0,
+  visibility: "public",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-02T00:00:00Z"),
+} as unknown as IMedia;
+
+function signToken(sub: string): Promise<string> {
+  return new SignJWT({})
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(sub)
+    .setExpirationTime("5m")
+    .sign(new TextEncoder().encode(JWT_SECRET));
+}
+
+describe("MediaGrpcClient against the media service", () => {
+  let server: grpc.Server;
+  let client: MediaGrpcClient;
+  let address: string;
+
+  before(async () => {
+    server = new grpc.Server({ interceptors: [authInterceptor] });
+    server.addService(MediaService.service, mediaGrpcService);
+    const port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync(
+        "127.0.0.1:0",
+        grpc.ServerCredentials.createInsecure(),
+        (error, boundPort) => (error ? reject(error) : resolve(boundPort))
+      )
+    );
+    address = `127.0.0.1:${port}`;
+    client = new MediaGrpcClient({
+      address,
+      token: () => signToken("user-1"),
+      retry: { maxAttempts: 1 },
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => {
+    client.close();
+    server.forceShutdown();
+  });
+
+  it("maps a media record onto the generated types", async () => {
+    const getMediaById = mock.method(mediaService, "getMediaById", async () =>
+      structuredClone(media)
+    );
+
+    const result = await client.getMedia(media.id!);
+
+    const [id, actor] = getMediaById.mock.calls[0].arguments;
+    assert.equal(id, media.id);
+    assert.equal(actor?.id, "user-1");
+    assert.equal(result.id, media.id);
+    assert.equal(result.type, "image");
+    assert.equal(result.mimeType, "image/jpeg");
+    assert.equal(result.size, "2048"); // int64 fields arrive as strings
+    assert.equal(result.width, 1600);
+    assert.equal(result.createdAt, "2026-01-01T00:00:00.000Z");
+    assert.deepEqual(
+      result.variants.map((variant) => variant.name),
+      ["thumb"]
+    );
+  });
+
+  it("sends the bearer token so handlers act as the caller", async () => {
+    const getSignedUrl = mock.method(
+      mediaService,
+      "getSignedUrl",
+      async () => "https://signed.example.com/front.jpg"
+    );
+
+    const url = await client.getSignedUrl(media.id!, 600, "attachment");
+
+    assert.equal(url, "https://signed.example.com/front.jpg");
+    const [id, actor, expiresIn, disposition] =
+      getSignedUrl.mock.calls[0].arguments;
+    assert.equal(id, media.id);
+    assert.equal(actor?.id, "user-1");
+    assert.equal(expiresIn, 600);
+    assert.equal(disposition, "attachment");
+  });
+
+  it("rejects calls without a token as UNAUTHENTICATED", async () => {
+    const anonymous = new MediaGrpcClient({
+      address,
+      retry: { maxAttempts: 1 },
+    });
+    try {
+      await assert.rejects(anonymous.getMedia(media.id!), (error) => {
+        assert.ok(error instanceof MediaClientError);
+        assert.equal(error.code, grpc.status.UNAUTHENTICATED);
+        assert.equal(error.httpStatus, 401);
+        return true;
+      });
+    } finally {
+      anonymous.close();
+    }
+  });
+
+  it("reports validation failures per field", async () => {
+    await assert.rejects(
+      client.getSignedUrl(media.id!, 30 * 24 * 3600),
+      (error) => {
+        assert.ok(error instanceof MediaClientError);
+        assert.equal(error.code, grpc.status.INVALID_ARGUMENT);
+        assert.equal(error.httpStatus, 400);
+        assert.deepEqual(
+          error.errors?.map((e) => e.field),
+          ["expiresIn"]
+        );
+        return true;
+      }
+    );
+  });
+
+  it("maps service errors to their gRPC status", async () => {
+    mock.method(mediaService, "getMediaById", async () => {
+      throw new NotFoundError("Media not found");
+    });
+
+    await assert.rejects(client.getMedia(media.id!), (error) => {
+      assert.ok(error instanceof MediaClientError);
+      assert.equal(error.code, grpc.status.NOT_FOUND);
+      assert.equal(error.httpStatus, 404);
+      assert.equal(error.message, "Media not found");
+      return true;
+    });
+  });
+
+  it("streams uploads in chunks the service reassembles", async () => {
+    const data = Buffer.alloc(200 * 1024, 7); // Several client chunks
+    const uploadMedia = mock.method(mediaService, "uploadMedia", async () =>
+      structuredClone(media)
+    );
+
+    const result = await client.uploadFile(
+      { data, fileName: "front.jpg", mimeType: "image/jpeg" },
+      { entityType: "property", entityId: "1", fieldName: "images" }
+    );
+
+    assert.equal(result.id, media.id);
+    const [file, options] = uploadMedia.mock.calls[0].arguments;
+    assert.ok(file?.buffer.equals(data));
+    assert.equal(file?.originalname, "front.jpg");
+    assert.equal(file?.mimetype, "image/jpeg");
+    assert.equal(options?.entityType, "property");
+    assert.equal(options?.fieldName, "images");
+    assert.equal(options?.uploadedBy, "user-1");
+  });
+
+  it("downloads a byte range as one buffer", async () => {
+    const data = Buffer.alloc(150 * 1024, 3); // Several service chunks
+    const getMediaStream = mock.method(
+      mediaService,
+      "getMediaStream",
+      async () => ({
+        stream: Readable.from([data]),
+        size: 300 * 1024,
+        start: 1024,
+        end: 1024 + data.length - 1,
+        mimeType: "video/mp4",
+        fileName: "tour.mp4",
+      })
+    );
+
+    const result = await client.downloadMedia(media.id!, {
+      rangeStart: 1024,
+      rangeEnd: 1024 + data.length - 1,
+    });
+
+    const [, , options] = getMediaStream.mock.calls[0].arguments;
+    assert.deepEqual(options?.range, {
+      start: 1024,
+      end: 1024 + data.length - 1,
+    });
+    assert.ok(result.data.equals(data));
+    assert.equal(result.info.mimeType, "video/mp4");
+    assert.equal(result.info.fileName, "tour.mp4");
+    assert.equal(Number(result.info.totalSize), 300 * 1024);
+  });
+});
@@ -1,4 +1,5 @@
 import mongoose from "mongoose";
+import type { ClientSession } from "mongoose";
 import config from "./dotenv.config";
 
 export async function connectDatabase(): Promise<void> {
@@ -11,6 +12,31 @@ export async function connectDatabase(): Promise<void> {
   }
 }
 
+let transactionsSupported: boolean | undefined;
+
+// Transactions need a replica set or a sharded cluster
+async function supportsTransactions(): Promise<boolean> {
+  if (transactionsSupported === undefined) {
+    const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+    transactionsSupported = Boolean(hello.setName) || hello.msg === "isdbgrid";
+  }
+  return transactionsSupported;
+}
+
+/**
+ * Run related writes in one transaction. A standalone server (local
+ * development) has no transactions, so the writes run back to back and
+ * `session` is undefined.
+ */
+export async function withTransaction<T>(
+  fn: (session?: ClientSession) => Promise<T>
+): Promise<T> {
+  if (!(await supportsTransactions())) {
+    return fn();
+  }
+  return mongoose.connection.transaction((session) => fn(session));
+}
+
 mongoose.connection.on("disconnected", () => {
   console.log("MongoDB disconnected");
 });
@@ -3,11 +3,35 @@ import path from "path";
 
 dotenv.config({ path: path.resolve(process.cwd(), ".env") });
 
+type ImageFit = "cover" | "contain" | "fill" | "inside" | "outside";
+
 const config = {
   nodeEnv: process.env.NODE_ENV || "development",
   port: parseInt(process.env.PORT || "3003", 10),
   grpcPort: parseInt(process.env.GRPC_PORT || "50053", 10),
   mongodbUri: process.env.MONGODB_URI as string,
+  publicUrl:
+    process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || "3003"}`,
+  urlSigningSecret: process.env.URL_SIGNING_SECRET || "change-me",
+
+  // Authentication (JWT bearer tokens, verified by shared secret or JWKS)
+  auth: {
+    jwtSecret: process.env.JWT_SECRET || "",
+    jwksUri: process.env.JWT_JWKS_URI || "", // Takes precedence over the secret
+    issuer: process.env.JWT_ISSUER || undefined,
+    audience: process.env.JWT_AUDIENCE || undefined,
+    rolesClaim: process.env.JWT_ROLES_CLAIM || "roles",
+    // Claim mapping entity types to the ids the caller owns
+    entitiesClaim: process.env.JWT_ENTITIES_CLAIM || "entities",
+    adminRoles: (process.env.AUTH_ADMIN_ROLES || "admin").split(","),
+  },
+
+  grpcTls: {
+    enabled: process.env.GRPC_TLS_ENABLED === "true",
+    certPath: process.env.GRPC_TLS_CERT_PATH || "",
+    keyPath: process.env.GRPC_TLS_KEY_PATH || "",
+    caPath: process.env.GRPC_TLS_CA_PATH || "", // Enables client certificate checks
+  },
 
   // Storage Provider
   storageProvider: (process.env.STORAGE_PROVIDER || "local") as
@@ -39,18 +63,157 @@ const config = {
     process.env.ALLOWED_DOCUMENT_TYPES || "application/pdf"
   ).split(","),
 
+  // Entity types media can attach to; the JSON file overrides or extends
+  // the built-in ones (see src/entity-types)
+  entityTypes: {
+    file: process.env.ENTITY_TYPES_FILE || "",
+  },
+
   imageProcessing: {
     quality: parseInt(process.env.IMAGE_QUALITY || "80", 10),
     maxWidth: parseInt(process.env.IMAGE_MAX_WIDTH || "1920", 10),
     maxHeight: parseInt(process.env.IMAGE_MAX_HEIGHT || "1080", 10),
     thumbnailWidth: parseInt(process.env.THUMBNAIL_WIDTH || "300", 10),
     thumbnailHeight: parseInt(process.env.THUMBNAIL_HEIGHT || "200", 10),
+    // name:widthxheight:fit
+    variants: (
+      process.env.IMAGE_VARIANTS ||
+      "thumb:150x150:cover,card:300x200:cover,gallery:800x600:inside,hero:1920x1080:inside"
+    )
+      .split(",")
+      .map((entry) => {
+        const [name, size, fit] = entry.split(":");
+        const [width, height] = size.split("x").map((n) => parseInt(n, 10));
+        return {
+          name,
+          width,
+          height,
+          fit: (fit || "cover") as ImageFit,
+        };
+      }),
+  },
+
+  render: {
+    allowedWidths: (
+      process.env.RENDER_ALLOWED_WIDTHS ||
+      "160,320,480,640,800,1024,1280,1600,1920"
+    )
+      .split(",")
+      .map((n) => parseInt(n, 10)),
+    allowedHeights: (
+      process.env.RENDER_ALLOWED_HEIGHTS ||
+      "90,180,240,360,480,600,720,900,1080"
+    )
+      .split(",")
+      .map((n) => parseInt(n, 10)),
+    allowedQualities: (process.env.RENDER_ALLOWED_QUALITIES || "50,65,80,90")
+      .split(",")
+      .map((n) => parseInt(n, 10)),
+    cacheMaxAge: parseInt(process.env.RENDER_CACHE_MAX_AGE || "31536000", 10), // seconds
   },
 
   videoProcessing: {
     maxDuration: parseInt(process.env.VIDEO_MAX_DURATION || "300", 10),
     outputFormat: process.env.VIDEO_OUTPUT_FORMAT || "mp4",
+    hls: {
+      enabled: process.env.HLS_ENABLED !== "false",
+      segmentDuration: parseInt(process.env.HLS_SEGMENT_DURATION || "6", 10),
+      // name:widthxheight:videoBitrate
+      renditions: (
+        process.env.HLS_RENDITIONS ||
+        "360p:640x360:800k,720p:1280x720:2800k,1080p:1920x1080:5000k"
+      )
+        .split(",")
+        .map((entry) => {
+          const [name, size, bitrate] = entry.split(":");
+          const [width, height] = size.split("x").map((n) => parseInt(n, 10));
+          return { name, width, height, bitrate };
+        }),
+    },
+  },
+
+  resumableUpload: {
+    chunkSize: parseInt(process.env.UPLOAD_CHUNK_SIZE || "5242880", 10), // 5MB, S3 multipart minimum
+    maxFileSize: parseInt(
+      process.env.RESUMABLE_MAX_FILE_SIZE || "1073741824",
+      10
+    ), // 1GB default
+    sessionTtl: parseInt(process.env.UPLOAD_SESSION_TTL || "86400", 10), // seconds
+  },
+
+  jobs: {
+    workerEnabled: process.env.JOB_WORKER_ENABLED !== "false",
+    pollInterval: parseInt(process.env.JOB_POLL_INTERVAL || "1000", 10), // ms
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || "2", 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || "3", 10),
+    backoffBase: parseInt(process.env.JOB_BACKOFF_BASE || "5000", 10), // ms
+    lockTimeout: parseInt(process.env.JOB_LOCK_TIMEOUT || "600000", 10), // ms
+  },
+
+  // Media lifecycle events, delivered from the outbox collection
+  events: {
+    // Comma-separated: property, webhook, memory
+    transports: (process.env.EVENT_TRANSPORTS || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean),
+    dispatcherEnabled: process.env.EVENT_DISPATCHER_ENABLED !== "false",
+    pollInterval: parseInt(process.env.EVENT_POLL_INTERVAL || "1000", 10), // ms
+    maxAttempts: parseInt(process.env.EVENT_MAX_ATTEMPTS || "10", 10),
+    backoffBase: parseInt(process.env.EVENT_BACKOFF_BASE || "5000", 10), // ms
+    lockTimeout: parseInt(process.env.EVENT_LOCK_TIMEOUT || "60000", 10), // ms
+    deliveryTimeout: parseInt(
+      process.env.EVENT_DELIVERY_TIMEOUT || "10000",
+      10
+    ), // ms
+    retention: parseInt(process.env.EVENT_RETENTION || "604800", 10), // seconds delivered events are kept
+    propertyServiceUrl:
+      process.env.PROPERTY_SERVICE_GRPC_URL || "localhost:50054",
+    webhook: {
+      url: process.env.EVENT_WEBHOOK_URL || "",
+      secret: process.env.EVENT_WEBHOOK_SECRET || "",
+    },
+  },
+
+  // Partner webhook subscriptions (see /webhooks)
+  webhooks: {
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "8", 10),
+    backoffBase: parseInt(process.env.WEBHOOK_BACKOFF_BASE || "30000", 10), // ms
+    timeout: parseInt(process.env.WEBHOOK_TIMEOUT || "10000", 10), // ms
+    retention: parseInt(
+      process.env.WEBHOOK_DELIVERY_RETENTION || "2592000",
+      10
+    ), // seconds delivery logs are kept
+  },
+
+  malwareScanning: {
+    scanner: (process.env.MALWARE_SCANNER || "none") as "clamav" | "none",
+    quarantinePrefix: process.env.QUARANTINE_PREFIX || "quarantine/",
+    unscannedPrefix: process.env.UNSCANNED_PREFIX || "unscanned/", // Direct uploads awaiting a scan
+    clamav: {
+      host: process.env.CLAMAV_HOST || "127.0.0.1",
+      port: parseInt(process.env.CLAMAV_PORT || "3310", 10),
+      socketPath: process.env.CLAMAV_SOCKET_PATH || "", // Preferred over TCP when set
+      timeout: parseInt(process.env.CLAMAV_TIMEOUT || "60000", 10), // ms
+    },
+  },
+
+  // Private media live under their own key prefix and are only served signed
+  mediaVisibility: {
+    default: (process.env.MEDIA_DEFAULT_VISIBILITY || "public") as
+      | "public"
+      | "private",
+    privatePrefix: process.env.PRIVATE_STORAGE_PREFIX || "private/",
+  },
+
+  uploadIntent: {
+    expiresIn: parseInt(process.env.UPLOAD_INTENT_EXPIRES_IN || "900", 10), // seconds
   },
 };
 
+// Anyone knowing the fallback could forge upload and private download links
+if (!process.env.URL_SIGNING_SECRET && config.nodeEnv !== "development") {
+  throw new Error("URL_SIGNING_SECRET must be set outside development");
+}
+
 export default config;
@@ -0,0 +1,125 @@
+import { MediaType } from "@media/media.type";
+import type {
+  EntityTypeDefinition,
+  FieldPolicy,
+  ProcessingProfile,
+} from "./entity-type.type";
+
+const MB = 1024 * 1024;
+
+const images: FieldPolicy = { mediaTypes: [MediaType.IMAGE] };
+const videos: FieldPolicy = { mediaTypes: [MediaType.VIDEO] };
+const documents: FieldPolicy = { mediaTypes: [MediaType.DOCUMENT] };
+const floorPlans: FieldPolicy = {
+  mediaTypes: [MediaType.IMAGE, MediaType.DOCUMENT],
+  mimeTypes: ["application/pdf", "image/*"],
+  maxCount: 20,
+};
+
+export const builtInProcessingProfiles: Record<string, ProcessingProfile> = {
+  // Profile pictures and logos are shown small
+  avatar: {
+    variants: ["thumb", "card"],
+    maxWidth: 1024,
+    maxHeight: 1024,
+  },
+  // Chat attachments are previewed, not browsed as galleries
+  attachment: {
+    variants: ["thumb", "gallery"],
+    hls: false,
+  },
+};
+
+export const builtInEntityTypes: EntityTypeDefinition[] = [
+  {
+    name: "user",
+    fields: {
+      profileImage: {
+        ...images,
+        maxCount: 1,
+        maxFileSize: 5 * MB,
+        crop: "square",
+      },
+      coverImage: { ...images, maxCount: 1 },
+      documents,
+    },
+    mediaTypes: [MediaType.IMAGE, MediaType.DOCUMENT],
+    maxPerField: 10,
+    sizeLimits: { image: 10 * MB, document: 20 * MB },
+    processingProfile: "avatar",
+  },
+  {
+    name: "property",
+    fields: {
+      images: { ...images, maxCount: 40 },
+      videos: { ...videos, maxCount: 10 },
+      floorPlans,
+      documents,
+    },
+    mediaTypes: [MediaType.IMAGE, MediaType.VIDEO, MediaType.DOCUMENT],
+    maxPerField: 100,
+    sizeLimits: { image: 20 * MB, document: 20 * MB },
+    processingProfile: "default",
+  },
+  {
+    name: "agency",
+    fields: {
+      logo: { ...images, maxCount: 1, crop: "square" },
+      coverImage: { ...images, maxCount: 1 },
+      images,
+      documents,
+    },
+    mediaTypes: [MediaType.IMAGE, MediaType.VIDEO, MediaType.DOCUMENT],
+    maxPerField: 50,
+    sizeLimits: { image: 10 * MB, document: 20 * MB },
+    processingProfile: "default",
+  },
+  {
+    name: "development",
+    fields: {
+      images,
+      videos,
+      floorPlans,
+      brochures: documents,
+      documents,
+    },
+    mediaTypes: [MediaType.IMAGE, MediaType.VIDEO, MediaType.DOCUMENT],
+    maxPerField: 200,
+    sizeLimits: { image: 20 * MB, document: 50 * MB },
+    processingProfile: "default",
+  },
+  {
+    name: "listing",
+    fields: {
+      images: { ...images, maxCount: 40 },
+      videos: { ...videos, maxCount: 10 },
+      floorPlans,
+      documents,
+    },
+    mediaTypes: [MediaType.IMAGE, MediaType.VIDEO, MediaType.DOCUMENT],
+    maxPerField: 100,
+    sizeLimits: { image: 20 * MB, document: 20 * MB },
+    processingProfile: "default",
+  },
+  {
+    name: "review",
+    fields: {
+      images,
+      videos: { ...videos, maxCount: 2 },
+    },
+    mediaTypes: [MediaType.IMAGE, MediaType.VIDEO],
+    maxPerField: 10,
+    sizeLimits: { image: 10 * MB, video: 100 * MB },
+    processingProfile: "default",
+  },
+  {
+    name: "chat_message",
+    fields: {
+      attachments: {},
+    },
+    mediaTypes: [MediaType.IMAGE, MediaType.VIDEO, MediaType.DOCUMENT],
+    maxPerField: 10,
+    sizeLimits: { image: 10 * MB, video: 50 * MB, document: 20 * MB },
+    processingProfile: "attachment",
+  },
+];
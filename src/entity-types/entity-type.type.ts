@@ -0,0 +1,35 @@
+import type { MediaType } from "@media/media.type";
+
+/**
+ * How images (and video posters) of an entity type are derived. Omitted
+ * settings fall back to the global image and video processing config.
+ */
+export interface ProcessingProfile {
+  variants?: string[]; // Names from IMAGE_VARIANTS; all when omitted
+  quality?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  hls?: boolean; // false skips HLS renditions even when enabled
+}
+
+// Rules for one field; omitted settings fall back to the entity type's
+export interface FieldPolicy {
+  maxCount?: number; // 1 makes the field single-valued: uploads replace
+  mediaTypes?: MediaType[];
+  mimeTypes?: string[]; // Narrows mediaTypes, e.g. ["application/pdf", "image/*"]
+  maxFileSize?: number; // Bytes, for any media type
+  crop?: "square"; // Served image and variants are center-cropped
+}
+
+export type ResolvedFieldPolicy = FieldPolicy &
+  Required<Pick<FieldPolicy, "maxCount" | "mediaTypes">>;
+
+export interface EntityTypeDefinition {
+  name: string; // Stored as Media.entityType, e.g. "property"
+  fields: Record<string, FieldPolicy>; // Fields media can be attached to
+  mediaTypes: MediaType[];
+  maxPerField: number; // Active media per entity field
+  // Bytes per media type; the upload route's own limit applies on top
+  sizeLimits: Partial<Record<MediaType, number>>;
+  processingProfile: string;
+}
@@ -0,0 +1,91 @@
+import fs from "fs";
+import { z } from "zod";
+import config from "@config/dotenv.config";
+import { EntityTypeRegistry } from "./entity-type.registry";
+import { builtInEntityTypes, builtInProcessingProfiles } from "./definitions";
+import type { EntityTypeDefinition } from "./entity-type.type";
+
+const mediaTypeSchema = z.enum(["image", "video", "document"]);
+
+const processingProfileSchema = z
+  .object({
+    variants: z.array(z.string().min(1)).optional(),
+    quality: z.number().int().min(1).max(100).optional(),
+    maxWidth: z.number().int().min(1).optional(),
+    maxHeight: z.number().int().min(1).optional(),
+    hls: z.boolean().optional(),
+  })
+  .strict();
+
+const fieldPolicySchema = z
+  .object({
+    maxCount: z.number().int().min(1).optional(),
+    mediaTypes: z.array(mediaTypeSchema).min(1).optional(),
+    mimeTypes: z.array(z.string().min(1)).min(1).optional(),
+    maxFileSize: z.number().int().min(1).optional(),
+    crop: z.literal("square").optional(),
+  })
+  .strict();
+
+const definitionSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and _"),
+    fields: z
+      .record(fieldPolicySchema)
+      .refine((fields) => Object.keys(fields).length > 0, {
+        message: "At least one field is required",
+      }),
+    mediaTypes: z.array(mediaTypeSchema).min(1),
+    maxPerField: z.number().int().min(1),
+    sizeLimits: z.record(mediaTypeSchema, z.number().int().min(1)),
+    processingProfile: z.string().min(1),
+  })
+  .strict();
+
+// Entries for built-in types only need the settings they change
+const entityTypesFileSchema = z.object({
+  profiles: z.record(processingProfileSchema).default({}),
+  types: z
+    .array(definitionSchema.partial().required({ name: true }))
+    .default([]),
+});
+
+function loadEntityTypesFile(
+  registry: EntityTypeRegistry,
+  filePath: string
+): void {
+  const file = entityTypesFileSchema.parse(
+    JSON.parse(fs.readFileSync(filePath, "utf8"))
+  );
+
+  for (const [name, profile] of Object.entries(file.profiles)) {
+    registry.registerProfile(name, profile);
+  }
+  for (const entry of file.types) {
+    const definition = definitionSchema.parse({
+      ...registry.get(entry.name),
+      ...entry,
+    });
+    registry.register(definition as EntityTypeDefinition);
+  }
+}
+
+export const entityTypeRegistry = new EntityTypeRegistry();
+
+for (const [name, profile] of Object.entries(builtInProcessingProfiles)) {
+  entityTypeRegistry.registerProfile(name, profile);
+}
+for (const definition of builtInEntityTypes) {
+  entityTypeRegistry.register(definition);
+}
+
+if (config.entityTypes.file) {
+  loadEntityTypesFile(entityTypeRegistry, config.entityTypes.file);
+}
+
+export type {
+  EntityTypeDefinition,
+  ProcessingProfile,
+} from "./entity-type.type";
@@ -0,0 +1,158 @@
+import { v4 as uuidv4 } from "uuid";
+import type { ClientSession } from "mongoose";
+import { OutboxEvent } from "./outbox.model";
+import config from "@config/dotenv.config";
+import type { IMedia, IMediaDocument } from "@media/media.type";
+import type {
+  EventTransport,
+  IOutboxEventDocument,
+  MediaEvent,
+  MediaEventType,
+} from "./event.type";
+
+/**
+ * Transactional outbox for media events. Events are written to MongoDB
+ * together with the change they describe and delivered afterwards by an
+ * in-process dispatcher, at least once per transport. Like the job queue,
+ * several service instances can share the collection.
+ */
+export class EventOutbox {
+  private transports = new Map<string, EventTransport>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  register(transport: EventTransport): void {
+    this.transports.set(transport.name, transport);
+  }
+
+  /**
+   * Record an event for each media record. Pass the session of the
+   * surrounding transaction so the events commit or roll back with it.
+   */
+  async record(
+    type: MediaEventType,
+    media: IMediaDocument | IMediaDocument[],
+    session?: ClientSession
+  ): Promise<void> {
+    const rows = [];
+    for (const item of Array.isArray(media) ? media : [media]) {
+      const event: MediaEvent = {
+        id: uuidv4(),
+        type,
+        occurredAt: new Date(),
+        media: item.toJSON() as unknown as IMedia,
+      };
+
+      for (const transport of this.transports.values()) {
+        if (transport.accepts && !transport.accepts(event)) continue;
+        rows.push({
+          eventId: event.id,
+          type,
+          transport: transport.name,
+          payload: event,
+          maxAttempts: config.events.maxAttempts,
+        });
+      }
+    }
+
+    if (rows.length > 0) {
+      await OutboxEvent.insertMany(rows, { session });
+    }
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => void this.tick(), delay);
+  }
+
+  // Deliver one event at a time so a slow consumer cannot be flooded
+  private async tick(): Promise<void> {
+    try {
+      while (this.running) {
+        const event = await this.claim();
+        if (!event) break;
+        await this.deliver(event);
+      }
+    } catch (error) {
+      console.error("Event outbox poll error:", error);
+    }
+
+    if (this.running) {
+      this.schedule(config.events.pollInterval);
+    }
+  }
+
+  private async claim(): Promise<IOutboxEventDocument | null> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - config.events.lockTimeout);
+
+    return OutboxEvent.findOneAndUpdate(
+      {
+        transport: { $in: [...this.transports.keys()] },
+        $or: [
+          { status: "pending", nextAttemptAt: { $lte: now } },
+          // Recover deliveries from workers that died mid-send
+          { status: "delivering", lockedAt: { $lt: staleBefore } },
+        ],
+      },
+      {
+        $set: { status: "delivering", lockedAt: now },
+        $inc: { attempts: 1 },
+      },
+      { sort: { nextAttemptAt: 1, _id: 1 }, new: true }
+    );
+  }
+
+  private async deliver(event: IOutboxEventDocument): Promise<void> {
+    const transport = this.transports.get(event.transport);
+    if (!transport) return;
+
+    try {
+      await transport.deliver(event.payload);
+      await OutboxEvent.findByIdAndUpdate(event._id, {
+        $set: { status: "delivered", deliveredAt: new Date() },
+        $unset: { lockedAt: 1 },
+      });
+    } catch (error) {
+      const err = error as Error;
+
+      if (event.attempts < event.maxAttempts) {
+        // Exponential backoff: base, 2x base, 4x base, ...
+        const delay = config.events.backoffBase * 2 ** (event.attempts - 1);
+        await OutboxEvent.findByIdAndUpdate(event._id, {
+          $set: {
+            status: "pending",
+            nextAttemptAt: new Date(Date.now() + delay),
+            lastError: err.message,
+          },
+          $unset: { lockedAt: 1 },
+        });
+        return;
+      }
+
+      console.error(
+        `Event ${event.type} (${event.eventId}) to ${event.transport} failed:`,
+        err
+      );
+      await OutboxEvent.findByIdAndUpdate(event._id, {
+        $set: { status: "failed", lastError: err.message },
+        $unset: { lockedAt: 1 },
+      });
+    }
+  }
+}
+
+export const eventOutbox = new EventOutbox();
@@ -0,0 +1,62 @@
+import type { Document } from "mongoose";
+import type { IMedia } from "@media/media.type";
+
+/**
+ * - media.uploaded: a record was created (duplicates may already be ready)
+ * - media.processed: processing finished; `media.status` tells how
+ * - media.updated: presentation or state changed (alt, order, cover, ...)
+ * - media.deleted: soft-deleted, files kept
+ * - media.purged: removed for good; `media` is the last known state
+ */
+export type MediaEventType =
+  | "media.uploaded"
+  | "media.processed"
+  | "media.updated"
+  | "media.deleted"
+  | "media.purged";
+
+export interface MediaEvent {
+  id: string; // Unique per event; consumers deduplicate on it
+  type: MediaEventType;
+  occurredAt: Date;
+  media: IMedia; // Serialized like API responses
+}
+
+export interface EventTransport {
+  readonly name: string;
+
+  // Skip events this destination has no interest in
+  accepts?(event: MediaEvent): boolean;
+  deliver(event: MediaEvent): Promise<void>;
+}
+
+export type OutboxEventStatus =
+  | "pending"
+  | "delivering"
+  | "delivered"
+  | "failed";
+
+// One row per event and transport, so each destination retries on its own
+export interface IOutboxEvent {
+  _id?: string;
+  eventId: string;
+  type: MediaEventType;
+  transport: string;
+  payload: MediaEvent;
+
+  status: OutboxEventStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedAt?: Date;
+  lastError?: string;
+  deliveredAt?: Date;
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IOutboxEventDocument
+  extends Omit<IOutboxEvent, "_id">,
+    Document {}
@@ -0,0 +1,45 @@
+import config from "@config/dotenv.config";
+import { eventOutbox } from "./event.outbox";
+import { PropertyServiceTransport } from "./transports/property.transport";
+import { WebhookTransport } from "./transports/webhook.transport";
+import { memoryTransport } from "./transports/memory.transport";
+import { WebhookSubscriptionTransport } from "./transports/subscription.transport";
+import type { EventTransport } from "./event.type";
+
+export function createEventTransport(name: string): EventTransport {
+  switch (name) {
+    case "property":
+      return new PropertyServiceTransport();
+    case "webhook": {
+      const { url, secret } = config.events.webhook;
+      if (!url || !secret) {
+        throw new Error(
+          "EVENT_WEBHOOK_URL and EVENT_WEBHOOK_SECRET are required for the webhook transport"
+        );
+      }
+      return new WebhookTransport(url, secret);
+    }
+    case "memory":
+      return memoryTransport;
+    default:
+      throw new Error(`Unknown event transport: ${name}`);
+  }
+}
+
+for (const name of config.events.transports) {
+  eventOutbox.register(createEventTransport(name));
+}
+
+// Subscriptions are managed through the API, so fan-out is always on
+eventOutbox.register(new WebhookSubscriptionTransport());
+
+export function startEventDispatcher(): void {
+  eventOutbox.start();
+  console.log("Event dispatcher started");
+}
+
+export function stopEventDispatcher(): void {
+  eventOutbox.stop();
+}
+
+export { eventOutbox, memoryTransport };
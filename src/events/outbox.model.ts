@@ -0,0 +1,69 @@
+import mongoose, { Schema } from "mongoose";
+import config from "@config/dotenv.config";
+import type { IOutboxEventDocument } from "./event.type";
+
+const outboxEventSchema = new Schema<IOutboxEventDocument>(
+  {
+    eventId: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    transport: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "delivering", "delivered", "failed"],
+      default: "pending",
+    },
+
+    // Retry tracking
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Claim query: next deliverable event, oldest first
+outboxEventSchema.index({ status: 1, nextAttemptAt: 1 });
+outboxEventSchema.index({ eventId: 1, transport: 1 }, { unique: true });
+// Delivered events are only kept for inspection
+outboxEventSchema.index(
+  { deliveredAt: 1 },
+  { expireAfterSeconds: config.events.retention }
+);
+
+export const OutboxEvent = mongoose.model<IOutboxEventDocument>(
+  "OutboxEvent",
+  outboxEventSchema
+);
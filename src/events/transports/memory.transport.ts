@@ -0,0 +1,17 @@
+import type { EventTransport, MediaEvent } from "../event.type";
+
+// Keeps delivered events in memory, for tests and local inspection
+export class MemoryTransport implements EventTransport {
+  readonly name = "memory";
+  readonly events: MediaEvent[] = [];
+
+  async deliver(event: MediaEvent): Promise<void> {
+    this.events.push(event);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
+
+export const memoryTransport = new MemoryTransport();
@@ -0,0 +1,15 @@
+import { propertyClient } from "@grpc/clients/property.client";
+import type { EventTransport, MediaEvent } from "../event.type";
+
+// gRPC callback to the property service, for media attached to properties
+export class PropertyServiceTransport implements EventTransport {
+  readonly name = "property";
+
+  accepts(event: MediaEvent): boolean {
+    return event.media.entityType === "property";
+  }
+
+  deliver(event: MediaEvent): Promise<void> {
+    return propertyClient.notifyMediaEvent(event);
+  }
+}
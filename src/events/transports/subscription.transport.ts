@@ -0,0 +1,11 @@
+import { webhookService } from "@webhook/webhook.service";
+import type { EventTransport, MediaEvent } from "../event.type";
+
+// Fans events out to the partner webhook subscriptions stored in MongoDB
+export class WebhookSubscriptionTransport implements EventTransport {
+  readonly name = "subscriptions";
+
+  deliver(event: MediaEvent): Promise<void> {
+    return webhookService.dispatchEvent(event);
+  }
+}
@@ -0,0 +1,20 @@
+import config from "@config/dotenv.config";
+import { postWebhook } from "@utils/webhook.utils";
+import type { EventTransport, MediaEvent } from "../event.type";
+
+// POST every event as signed JSON to a single endpoint
+export class WebhookTransport implements EventTransport {
+  readonly name = "webhook";
+
+  constructor(private url: string, private secret: string) {}
+
+  async deliver(event: MediaEvent): Promise<void> {
+    const response = await postWebhook(this.url, this.secret, event, {
+      timeout: config.events.deliveryTimeout,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  }
+}
@@ -1,29 +1,39 @@
+import * as grpc from "@grpc/grpc-js";
 import config from "@config/dotenv.config";
+import { MediaEventReceiver } from "../index";
+import { transformMediaToProto } from "../utils/media.utils";
+import type { MediaEvent } from "@events/event.type";
 
-// Optional: Client to notify property service about media changes
+// Pushes media lifecycle events to the property service
 export class PropertyClient {
-  private address: string;
+  private client: InstanceType<grpc.ServiceClientConstructor>;
 
-  constructor(address?: string) {
-    this.address = address || `localhost:${config.grpcPort + 1}`;
-
-    // This assumes property service has a proto definition
-    // For now, this is a placeholder
-    console.log(`Property client would connect to: ${this.address}`);
+  constructor(address: string = config.events.propertyServiceUrl) {
+    this.client = new MediaEventReceiver(
+      address,
+      grpc.credentials.createInsecure()
+    );
   }
 
-  async notifyMediaAdded(propertyId: string, mediaId: string): Promise<void> {
-    // Placeholder for notifying property service
-    console.log(
-      `Notifying property service: Media ${mediaId} added to property ${propertyId}`
-    );
+  notifyMediaEvent(event: MediaEvent): Promise<void> {
+    const request = {
+      id: event.id,
+      type: event.type,
+      occurredAt: new Date(event.occurredAt).toISOString(),
+      media: transformMediaToProto(event.media),
+    };
+
+    return new Promise((resolve, reject) => {
+      this.client.handleMediaEvent(
+        request,
+        { deadline: Date.now() + config.events.deliveryTimeout },
+        (error: grpc.ServiceError | null) => (error ? reject(error) : resolve())
+      );
+    });
   }
 
-  async notifyMediaRemoved(propertyId: string, mediaId: string): Promise<void> {
-    // Placeholder for notifying property service
-    console.log(
-      `Notifying property service: Media ${mediaId} removed from property ${propertyId}`
-    );
+  close(): void {
+    this.client.close();
   }
 }
 
@@ -3,15 +3,29 @@ import * as protoLoader from "@grpc/proto-loader";
 import { join } from "path";
 
 // Use process.cwd() to construct path - works in both dev and production
-const PROTO_PATH = join(process.cwd(), "src/grpc/proto/media.proto");
+const PROTO_DIR = join(process.cwd(), "src/grpc/proto");
+const PROTO_PATH = join(PROTO_DIR, "media.proto");
+const EVENTS_PROTO_PATH = join(PROTO_DIR, "media_events.proto");
 
-export const mediaPackageDefinition = protoLoader.loadSync(PROTO_PATH, {
+const loaderOptions: protoLoader.Options = {
   keepCase: false,
   longs: String,
   enums: String,
   defaults: true,
   oneofs: true,
-});
+  includeDirs: [PROTO_DIR],
+};
+
+export const mediaPackageDefinition = protoLoader.loadSync(
+  PROTO_PATH,
+  loaderOptions
+);
+
+// Callbacks this service makes to its consumers
+export const mediaEventsPackageDefinition = protoLoader.loadSync(
+  EVENTS_PROTO_PATH,
+  loaderOptions
+);
 
 interface MediaProtoDefinition {
   media: {
@@ -19,9 +33,21 @@ interface MediaProtoDefinition {
   };
 }
 
+interface MediaEventsProtoDefinition {
+  media: {
+    MediaEventReceiver: grpc.ServiceClientConstructor;
+  };
+}
+
 export const mediaProto = grpc.loadPackageDefinition(
   mediaPackageDefinition
 ) as unknown as MediaProtoDefinition;
 export const MediaService = mediaProto.media.MediaService;
 
+export const MediaEventReceiver = (
+  grpc.loadPackageDefinition(
+    mediaEventsPackageDefinition
+  ) as unknown as MediaEventsProtoDefinition
+).media.MediaEventReceiver;
+
 export { grpc, protoLoader };
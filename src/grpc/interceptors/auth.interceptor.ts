@@ -0,0 +1,60 @@
+import * as grpc from "@grpc/grpc-js";
+import { getBearerToken, verifyAccessToken } from "@utils/auth.utils";
+import type { AuthUser } from "@utils/auth.utils";
+import { UnauthorizedError } from "@middlewares/error.middleware";
+import { toGrpcStatus } from "../utils/error.utils";
+
+// Set by the interceptor after verification; never trusted from clients
+const AUTH_USER_KEY = "x-authenticated-user";
+
+// Reflection is used by tooling and carries no media data
+const publicServices = ["/grpc.reflection."];
+
+/**
+ * Verify the bearer token in the `authorization` metadata with the same
+ * rules as the REST middleware, and pass the caller on to handlers.
+ */
+export const authInterceptor: grpc.ServerInterceptor = (
+  methodDescriptor,
+  call
+) => {
+  if (
+    publicServices.some((prefix) => methodDescriptor.path.startsWith(prefix))
+  ) {
+    return new grpc.ServerInterceptingCall(call);
+  }
+
+  return new grpc.ServerInterceptingCall(call, {
+    start: (next): void => {
+      const listener = new grpc.ServerListenerBuilder()
+        .withOnReceiveMetadata((metadata, nextMetadata) => {
+          metadata.remove(AUTH_USER_KEY);
+          const [header] = metadata.get("authorization");
+          const token = getBearerToken(header?.toString());
+          if (!token) {
+            call.sendStatus(
+              toGrpcStatus(new UnauthorizedError("Missing bearer token"))
+            );
+            return;
+          }
+
+          verifyAccessToken(token)
+            .then((user) => {
+              metadata.set(AUTH_USER_KEY, JSON.stringify(user));
+              nextMetadata(metadata);
+            })
+            .catch((error) => call.sendStatus(toGrpcStatus(error)));
+        })
+        .build();
+      next(listener);
+    },
+  });
+};
+
+export function getCallUser(call: { metadata: grpc.Metadata }): AuthUser {
+  const [value] = call.metadata.get(AUTH_USER_KEY);
+  if (!value) {
+    throw new UnauthorizedError("Call is not authenticated");
+  }
+  return JSON.parse(value.toString()) as AuthUser;
+}
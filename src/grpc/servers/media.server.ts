@@ -1,183 +1,379 @@
 import * as grpc from "@grpc/grpc-js";
 import { mediaService } from "@media/media.service";
-import { EntityType } from "@media/media.type";
-import type { IMedia } from "@media/media.type";
+import type { UploadMediaOptions } from "@media/media.service";
+import { MediaType } from "@media/media.type";
+import type { UploadedFile } from "@media/media.type";
+import {
+  grpcGetMediaSchema,
+  grpcGetMediaByEntitySchema,
+  grpcQueryMediaSchema,
+  grpcBatchGetMediaSchema,
+  grpcUpdateMediaSchema,
+  grpcReorderMediaSchema,
+  grpcBulkDeleteSchema,
+  grpcGetSignedUrlSchema,
+  grpcDownloadMediaSchema,
+  uploadStreamMetadataSchema,
+} from "@validations/media.validation";
+import { BadRequestError } from "@middlewares/error.middleware";
+import config from "@config/dotenv.config";
+import { getCallUser } from "../interceptors/auth.interceptor";
+import {
+  unaryHandler,
+  clientStreamHandler,
+  serverStreamHandler,
+} from "../utils/handler.utils";
+import { transformMediaToProto } from "../utils/media.utils";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-type GrpcCall = grpc.ServerUnaryCall<any, any>;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type GrpcCallback = grpc.sendUnaryData<any>;
-
-interface ProtoMedia {
-  id: string;
-  fileName: string;
-  url: string;
-  thumbnailUrl?: string;
-  thumbnailWidth?: number;
-  thumbnailHeight?: number;
-  type: string;
-  originalName: string;
-  mimeType: string;
-  size: number;
-  width?: number;
-  height?: number;
-  duration?: number;
-  entityType: string;
-  entityId: string;
-  fieldName: string;
-  uploadedBy: string;
-  storageProvider: string;
-  storagePath: string;
-  isProcessed: boolean;
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
+type GrpcStreamCall = grpc.ServerReadableStream<any, any>;
+
+// Keep messages well under the default 4MB gRPC limit
+const DOWNLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Wait until a server stream can take more data. Resolves false instead
+ * when the client cancels or disconnects, as no drain will follow.
+ */
+function waitForDrain(
+  call: grpc.ServerWritableStream<unknown, unknown>
+): Promise<boolean> {
+  if (call.cancelled) return Promise.resolve(false);
+
+  return new Promise<boolean>((resolve) => {
+    const settle = (drained: boolean) => (): void => {
+      call.off("drain", onDrain);
+      call.off("cancelled", onGone);
+      call.off("close", onGone);
+      call.off("error", onGone);
+      resolve(drained);
+    };
+    const onDrain = settle(true);
+    const onGone = settle(false);
+    call.once("drain", onDrain);
+    call.once("cancelled", onGone);
+    call.once("close", onGone);
+    call.once("error", onGone);
+  });
 }
 
-function transformMediaToProto(media: IMedia): ProtoMedia {
-  return {
-    id: media._id || "",
-    fileName: media.fileName,
-    url: media.url,
-    thumbnailUrl: media.thumbnail?.url,
-    thumbnailWidth: media.thumbnail?.width,
-    thumbnailHeight: media.thumbnail?.height,
-    type: media.type,
-    originalName: media.metadata.originalName,
-    mimeType: media.metadata.mimeType,
-    size: media.metadata.size,
-    width: media.metadata.dimensions?.width,
-    height: media.metadata.dimensions?.height,
-    duration: media.metadata.duration,
-    entityType: media.entityType,
-    entityId: media.entityId,
-    fieldName: media.fieldName,
-    uploadedBy: media.uploadedBy,
-    storageProvider: media.storageProvider,
-    storagePath: media.storagePath,
-    isProcessed: media.isProcessed,
-    isActive: media.isActive,
-    createdAt: media.createdAt?.toISOString() || "",
-    updatedAt: media.updatedAt?.toISOString() || "",
-  };
+interface UploadStreamMessage {
+  data: "metadata" | "chunk";
+  metadata?: Record<string, unknown>;
+  chunk?: Buffer;
+}
+
+interface StreamedUpload {
+  file: UploadedFile;
+  options: UploadMediaOptions;
+}
+
+/**
+ * Collect the files sent on an upload stream. Each file starts with a
+ * metadata message followed by its chunks; sizes are enforced as the
+ * chunks arrive so oversized files are never fully buffered.
+ */
+function readUploadStream(
+  call: GrpcStreamCall,
+  maxFiles: number
+): Promise<StreamedUpload[]> {
+  return new Promise((resolve, reject) => {
+    const actor = getCallUser(call);
+    const uploads: {
+      metadata: ReturnType<typeof uploadStreamMetadataSchema.parse>;
+      chunks: Buffer[];
+      size: number;
+    }[] = [];
+    let failed = false;
+
+    const fail = (error: Error): void => {
+      if (failed) return;
+      failed = true;
+      reject(error);
+    };
+
+    call.on("data", (message: UploadStreamMessage) => {
+      if (failed) return;
+
+      if (message.data === "metadata") {
+        if (uploads.length >= maxFiles) {
+          fail(new BadRequestError(`Maximum ${maxFiles} files per request`));
+          return;
+        }
+        const parsed = uploadStreamMetadataSchema.safeParse(message.metadata);
+        if (!parsed.success) {
+          fail(parsed.error);
+          return;
+        }
+        uploads.push({ metadata: parsed.data, chunks: [], size: 0 });
+        return;
+      }
+
+      const current = uploads[uploads.length - 1];
+      if (!current) {
+        fail(new BadRequestError("Metadata must be sent before file chunks"));
+        return;
+      }
+      const chunk = message.chunk || Buffer.alloc(0);
+      current.size += chunk.length;
+      if (current.size > config.maxFileSize) {
+        fail(
+          new BadRequestError(
+            `File size exceeds maximum allowed size of ${
+              config.maxFileSize / 1024 / 1024
+            }MB`
+          )
+        );
+        return;
+      }
+      current.chunks.push(chunk);
+    });
+
+    call.on("error", fail);
+
+    call.on("end", () => {
+      if (failed) return;
+      if (uploads.length === 0) {
+        fail(new BadRequestError("No file uploaded"));
+        return;
+      }
+
+      resolve(
+        uploads.map(({ metadata, chunks, size }) => ({
+          file: {
+            originalname: metadata.fileName,
+            mimetype: metadata.mimeType,
+            size,
+            buffer: Buffer.concat(chunks, size),
+          },
+          options: {
+            entityType: metadata.entityType,
+            entityId: metadata.entityId,
+            fieldName: metadata.fieldName,
+            visibility: metadata.visibility,
+            uploadedBy: actor.id,
+            actor,
+          },
+        }))
+      );
+    });
+  });
 }
 
 export const mediaGrpcService = {
-  async getMedia(call: GrpcCall, callback: GrpcCallback): Promise<void> {
-    try {
-      const { id } = call.request;
-      const media = await mediaService.getMediaById(id);
+  getMedia: unaryHandler(grpcGetMediaSchema, async ({ id }, call) => {
+    const media = await mediaService.getMediaById(id, getCallUser(call));
+    return { success: true, data: transformMediaToProto(media) };
+  }),
 
-      callback(null, {
-        success: true,
-        data: transformMediaToProto(media),
-      });
-    } catch (error) {
-      callback(null, {
-        success: false,
-        message: (error as Error).message,
-      });
-    }
-  },
-
-  async getMediaByEntity(
-    call: GrpcCall,
-    callback: GrpcCallback
-  ): Promise<void> {
-    try {
-      const { entityType, entityId, fieldName } = call.request;
+  getMediaStatus: unaryHandler(grpcGetMediaSchema, async ({ id }) => {
+    const status = await mediaService.getMediaStatus(id);
+    return { success: true, data: status };
+  }),
+
+  getMediaByEntity: unaryHandler(
+    grpcGetMediaByEntitySchema,
+    async ({ entityType, entityId, fieldName }, call) => {
       const media = await mediaService.getMediaByEntity(
-        entityType as EntityType,
+        entityType,
         entityId,
-        fieldName
+        getCallUser(call),
+        fieldName || undefined
       );
-
-      callback(null, {
-        success: true,
-        data: media.map(transformMediaToProto),
-      });
-    } catch (error) {
-      callback(null, {
-        success: false,
-        message: (error as Error).message,
-      });
+      return { success: true, data: media.map(transformMediaToProto) };
     }
-  },
-
-  async updateMedia(call: GrpcCall, callback: GrpcCallback): Promise<void> {
-    try {
-      const { id, isActive, isProcessed } = call.request;
+  ),
 
-      const updateData: { isActive?: boolean; isProcessed?: boolean } = {};
-      if (isActive !== undefined) updateData.isActive = isActive;
-      if (isProcessed !== undefined) updateData.isProcessed = isProcessed;
+  queryMedia: unaryHandler(grpcQueryMediaSchema, async (request, call) => {
+    const page = await mediaService.queryMedia(
+      {
+        ...request,
+        entityType: request.entityType,
+        type: request.type as MediaType | undefined,
+      },
+      getCallUser(call)
+    );
+    return {
+      success: true,
+      data: page.data.map(transformMediaToProto),
+      total: page.total,
+      nextCursor: page.nextCursor,
+      hasMore: page.hasMore,
+    };
+  }),
 
-      const media = await mediaService.updateMedia(id, updateData);
+  batchGetMedia: unaryHandler(
+    grpcBatchGetMediaSchema,
+    async ({ ids }, call) => {
+      const { data, missingIds } = await mediaService.getMediaByIds(
+        ids,
+        getCallUser(call)
+      );
+      return {
+        success: true,
+        data: data.map(transformMediaToProto),
+        missingIds,
+      };
+    }
+  ),
 
-      callback(null, {
+  updateMedia: unaryHandler(
+    grpcUpdateMediaSchema,
+    async ({ id, ...data }, call) => {
+      const media = await mediaService.updateMedia(id, data, getCallUser(call));
+      return {
         success: true,
+        message: "Media updated successfully",
         data: transformMediaToProto(media),
-      });
-    } catch (error) {
-      callback(null, {
-        success: false,
-        message: (error as Error).message,
-      });
+      };
     }
-  },
+  ),
 
-  async deleteMedia(call: GrpcCall, callback: GrpcCallback): Promise<void> {
-    try {
-      const { id } = call.request;
-      await mediaService.deleteMedia(id);
-
-      callback(null, {
+  reorderMedia: unaryHandler(
+    grpcReorderMediaSchema,
+    async ({ entityType, entityId, fieldName, ids }, call) => {
+      const media = await mediaService.reorderMedia(
+        entityType,
+        entityId,
+        fieldName,
+        ids,
+        getCallUser(call)
+      );
+      return {
         success: true,
-        message: "Media deleted successfully",
-      });
-    } catch (error) {
-      callback(null, {
-        success: false,
-        message: (error as Error).message,
-      });
+        message: "Media reordered successfully",
+        data: media.map(transformMediaToProto),
+      };
     }
-  },
+  ),
+
+  setCoverMedia: unaryHandler(grpcGetMediaSchema, async ({ id }, call) => {
+    const media = await mediaService.setCover(id, getCallUser(call));
+    return {
+      success: true,
+      message: "Cover updated successfully",
+      data: transformMediaToProto(media),
+    };
+  }),
 
-  async bulkDeleteMedia(call: GrpcCall, callback: GrpcCallback): Promise<void> {
-    try {
-      const { ids, permanent } = call.request;
+  deleteMedia: unaryHandler(grpcGetMediaSchema, async ({ id }, call) => {
+    await mediaService.deleteMedia(id, getCallUser(call));
+    return { success: true, message: "Media deleted successfully" };
+  }),
+
+  bulkDeleteMedia: unaryHandler(
+    grpcBulkDeleteSchema,
+    async ({ ids, permanent }, call) => {
+      const actor = getCallUser(call);
       const result = permanent
-        ? await mediaService.bulkDeletePermanently(ids)
-        : await mediaService.bulkDelete(ids);
+        ? await mediaService.bulkDeletePermanently(ids, actor)
+        : await mediaService.bulkDelete(ids, actor);
 
-      callback(null, {
+      return {
         success: true,
         message: `${result.deleted} media files deleted`,
         deleted: result.deleted,
         failed: result.failed,
-      });
-    } catch (error) {
-      callback(null, {
-        success: false,
-        message: (error as Error).message,
-      });
+      };
     }
-  },
+  ),
 
-  async getSignedUrl(call: GrpcCall, callback: GrpcCallback): Promise<void> {
-    try {
-      const { id, expiresIn } = call.request;
-      const url = await mediaService.getSignedUrl(id, expiresIn || 3600);
+  getSignedUrl: unaryHandler(
+    grpcGetSignedUrlSchema,
+    async ({ id, expiresIn, disposition }, call) => {
+      const url = await mediaService.getSignedUrl(
+        id,
+        getCallUser(call),
+        expiresIn,
+        disposition
+      );
+      return { success: true, url };
+    }
+  ),
 
-      callback(null, {
-        success: true,
-        url,
+  uploadMedia: clientStreamHandler(async (call) => {
+    const [upload] = await readUploadStream(call, 1);
+    const media = await mediaService.uploadMedia(upload.file, upload.options);
+
+    return {
+      success: true,
+      message: "Media uploaded successfully",
+      data: transformMediaToProto(media),
+    };
+  }),
+
+  uploadMultipleMedia: clientStreamHandler(async (call) => {
+    const uploads = await readUploadStream(call, config.maxFilesPerRequest);
+
+    // Batches go to a single field, as with the REST endpoint, so the
+    // field's capacity is checked for the whole batch up front
+    const [{ options }] = uploads;
+    const mixed = uploads.some(
+      (upload) =>
+        upload.options.entityType !== options.entityType ||
+        upload.options.entityId !== options.entityId ||
+        upload.options.fieldName !== options.fieldName ||
+        upload.options.visibility !== options.visibility
+    );
+    if (mixed) {
+      throw new BadRequestError(
+        "All files in a batch must target the same entity field"
+      );
+    }
+
+    const media = await mediaService.uploadMultipleMedia(
+      uploads.map((upload) => upload.file),
+      options
+    );
+
+    return {
+      success: true,
+      message: `${media.length} media files uploaded successfully`,
+      data: media.map(transformMediaToProto),
+    };
+  }),
+
+  downloadMedia: serverStreamHandler(
+    grpcDownloadMediaSchema,
+    async ({ id, variant, rangeStart, rangeEnd }, call) => {
+      const range =
+        rangeStart !== undefined || rangeEnd !== undefined
+          ? { start: rangeStart ?? 0, end: rangeEnd }
+          : undefined;
+
+      const media = await mediaService.getMediaStream(id, getCallUser(call), {
+        variant: variant || undefined,
+        range,
       });
-    } catch {
-      callback(null, {
-        success: false,
-        url: "",
+
+      call.write({
+        info: {
+          mimeType: media.mimeType,
+          fileName: media.fileName,
+          totalSize: media.size,
+          rangeStart: media.start,
+          rangeEnd: media.end,
+        },
       });
+
+      for await (const data of media.stream) {
+        if (call.cancelled) {
+          media.stream.destroy();
+          return;
+        }
+        const buffer = Buffer.from(data);
+        for (
+          let offset = 0;
+          offset < buffer.length;
+          offset += DOWNLOAD_CHUNK_SIZE
+        ) {
+          const chunk = buffer.subarray(offset, offset + DOWNLOAD_CHUNK_SIZE);
+          if (!call.write({ chunk }) && !(await waitForDrain(call))) {
+            media.stream.destroy();
+            return;
+          }
+        }
+      }
     }
-  },
+  ),
 };
@@ -0,0 +1,95 @@
+import * as grpc from "@grpc/grpc-js";
+import mongoose from "mongoose";
+import { ZodError } from "zod";
+import { HttpError, handleZodError } from "@middlewares/error.middleware";
+
+const statusByHttpCode: Record<number, grpc.status> = {
+  400: grpc.status.INVALID_ARGUMENT,
+  401: grpc.status.UNAUTHENTICATED,
+  403: grpc.status.PERMISSION_DENIED,
+  404: grpc.status.NOT_FOUND,
+  409: grpc.status.FAILED_PRECONDITION,
+  416: grpc.status.OUT_OF_RANGE,
+  500: grpc.status.INTERNAL,
+};
+
+// Driver errors raised while the database is unreachable; safe to retry
+const unavailableMongoErrors = [
+  "MongoNetworkError",
+  "MongoNetworkTimeoutError",
+  "MongoServerSelectionError",
+  "MongoNotConnectedError",
+];
+
+function buildStatus(
+  code: grpc.status,
+  details: string,
+  extra: { httpStatus: number; errors?: { field: string; message: string }[] }
+): grpc.StatusObject {
+  // Machine-readable details travel in trailing metadata
+  const metadata = new grpc.Metadata();
+  metadata.set("x-http-status", extra.httpStatus.toString());
+  if (extra.errors) {
+    metadata.set("x-error-details", JSON.stringify(extra.errors));
+  }
+  return { code, details, metadata };
+}
+
+/**
+ * Map an error thrown by a handler to a gRPC status. Unexpected errors are
+ * logged and reported as INTERNAL without leaking their message.
+ */
+export function toGrpcStatus(error: unknown): grpc.StatusObject {
+  if (error instanceof ZodError) {
+    const { message, errors } = handleZodError(error);
+    return buildStatus(grpc.status.INVALID_ARGUMENT, message, {
+      httpStatus: 400,
+      errors,
+    });
+  }
+
+  if (error instanceof HttpError) {
+    return buildStatus(
+      statusByHttpCode[error.statusCode] ?? grpc.status.UNKNOWN,
+      error.message,
+      { httpStatus: error.statusCode }
+    );
+  }
+
+  if (error instanceof mongoose.Error.CastError) {
+    return buildStatus(
+      grpc.status.INVALID_ARGUMENT,
+      `Invalid ${error.path}: ${error.value}`,
+      { httpStatus: 400, errors: [{ field: error.path, message: error.kind }] }
+    );
+  }
+
+  if (error instanceof mongoose.Error.ValidationError) {
+    return buildStatus(grpc.status.INVALID_ARGUMENT, "Validation error", {
+      httpStatus: 400,
+      errors: Object.values(error.errors).map((e) => ({
+        field: e.path,
+        message: e.message,
+      })),
+    });
+  }
+
+  if ((error as { code?: number }).code === 11000) {
+    return buildStatus(grpc.status.ALREADY_EXISTS, "Resource already exists", {
+      httpStatus: 409,
+    });
+  }
+
+  if (unavailableMongoErrors.includes((error as Error).name)) {
+    return buildStatus(
+      grpc.status.UNAVAILABLE,
+      "Database is temporarily unavailable",
+      { httpStatus: 503 }
+    );
+  }
+
+  console.error("gRPC error:", error);
+  return buildStatus(grpc.status.INTERNAL, "Internal server error", {
+    httpStatus: 500,
+  });
+}
@@ -0,0 +1,62 @@
+import * as grpc from "@grpc/grpc-js";
+import type { ZodType, ZodTypeDef } from "zod";
+import { toGrpcStatus } from "./error.utils";
+
+type RequestSchema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+/**
+ * Wrap a unary handler: validate the request, then reply with the result
+ * or with the status mapped from whatever was thrown.
+ */
+export function unaryHandler<TRequest, TResponse>(
+  schema: RequestSchema<TRequest>,
+  handler: (
+    request: TRequest,
+    call: grpc.ServerUnaryCall<unknown, TResponse>
+  ) => Promise<TResponse>
+): grpc.handleUnaryCall<unknown, TResponse> {
+  return async (call, callback) => {
+    try {
+      const request = schema.parse(call.request);
+      callback(null, await handler(request, call));
+    } catch (error) {
+      callback(toGrpcStatus(error));
+    }
+  };
+}
+
+// Client-streaming calls validate each message themselves
+export function clientStreamHandler<TResponse>(
+  handler: (
+    call: grpc.ServerReadableStream<unknown, TResponse>
+  ) => Promise<TResponse>
+): grpc.handleClientStreamingCall<unknown, TResponse> {
+  return async (call, callback) => {
+    try {
+      callback(null, await handler(call));
+    } catch (error) {
+      callback(toGrpcStatus(error));
+    }
+  };
+}
+
+/**
+ * Wrap a server-streaming handler. The handler writes its messages; the
+ * call is ended when it resolves, or failed with the mapped status.
+ */
+export function serverStreamHandler<TRequest, TResponse>(
+  schema: RequestSchema<TRequest>,
+  handler: (
+    request: TRequest,
+    call: grpc.ServerWritableStream<unknown, TResponse>
+  ) => Promise<void>
+): grpc.handleServerStreamingCall<unknown, TResponse> {
+  return async (call) => {
+    try {
+      await handler(schema.parse(call.request), call);
+      call.end();
+    } catch (error) {
+      call.emit("error", toGrpcStatus(error));
+    }
+  };
+}
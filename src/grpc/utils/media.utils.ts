@@ -0,0 +1,85 @@
+import type { IMedia } from "@media/media.type";
+
+export interface ProtoMedia {
+  id: string;
+  fileName: string;
+  url: string;
+  thumbnailUrl?: string;
+  thumbnailWidth?: number;
+  thumbnailHeight?: number;
+  type: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+  entityType: string;
+  entityId: string;
+  fieldName: string;
+  uploadedBy: string;
+  storageProvider: string;
+  storagePath: string;
+  isProcessed: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  status: string;
+  processingError?: string;
+  hlsUrl?: string;
+  variants: { name: string; url: string; width: number; height: number }[];
+  originalUrl?: string;
+  isQuarantined: boolean;
+  alt?: string;
+  caption?: string;
+  order: number;
+  isCover: boolean;
+  visibility: string;
+}
+
+export function transformMediaToProto(media: IMedia): ProtoMedia {
+  return {
+    id: String(media.id ?? media._id ?? ""),
+    fileName: media.fileName,
+    url: media.url,
+    thumbnailUrl: media.thumbnail?.url,
+    thumbnailWidth: media.thumbnail?.width,
+    thumbnailHeight: media.thumbnail?.height,
+    type: media.type,
+    originalName: media.metadata.originalName,
+    mimeType: media.metadata.mimeType,
+    size: media.metadata.size,
+    width: media.metadata.dimensions?.width,
+    height: media.metadata.dimensions?.height,
+    duration:
+      media.metadata.duration !== undefined
+        ? Math.round(media.metadata.duration)
+        : undefined,
+    entityType: media.entityType,
+    entityId: media.entityId,
+    fieldName: media.fieldName,
+    uploadedBy: media.uploadedBy,
+    storageProvider: media.storageProvider,
+    storagePath: media.storagePath,
+    isProcessed: media.isProcessed,
+    isActive: media.isActive,
+    createdAt: media.createdAt?.toISOString() || "",
+    updatedAt: media.updatedAt?.toISOString() || "",
+    status: media.status,
+    processingError: media.processingError,
+    hlsUrl: media.streaming?.hlsUrl,
+    variants: (media.variants || []).map((variant) => ({
+      name: variant.name,
+      url: variant.url,
+      width: variant.width,
+      height: variant.height,
+    })),
+    originalUrl: media.original?.url,
+    isQuarantined: media.isQuarantined || false,
+    alt: media.alt,
+    caption: media.caption,
+    order: media.order ?? 0,
+    isCover: media.isCover || false,
+    visibility: media.visibility || "public",
+  };
+}
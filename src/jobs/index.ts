@@ -0,0 +1,58 @@
+import { jobQueue } from "./job.queue";
+import { mediaProcessor, MEDIA_PROCESS_JOB } from "@media/media.processor";
+import type { MediaProcessPayload } from "@media/media.processor";
+import {
+  storageMigrationService,
+  STORAGE_MIGRATION_JOB,
+} from "@storage-migration/storage-migration.service";
+import type { StorageMigrationPayload } from "@storage-migration/storage-migration.service";
+import { webhookService, WEBHOOK_DELIVERY_JOB } from "@webhook/webhook.service";
+import type { WebhookDeliveryPayload } from "@webhook/webhook.service";
+import {
+  uploadSessionService,
+  UPLOAD_SESSION_EXPIRE_JOB,
+} from "@upload-session/upload-session.service";
+import type { UploadSessionExpirePayload } from "@upload-session/upload-session.service";
+
+jobQueue.register<MediaProcessPayload>(
+  MEDIA_PROCESS_JOB,
+  (payload) => mediaProcessor.process(payload.mediaId),
+  {
+    onFailed: (payload, error) =>
+      mediaProcessor.markFailed(payload.mediaId, error),
+  }
+);
+
+jobQueue.register<StorageMigrationPayload>(
+  STORAGE_MIGRATION_JOB,
+  (payload) => storageMigrationService.runQueuedBatch(payload.migrationId),
+  {
+    onFailed: (payload, error) =>
+      storageMigrationService.markFailed(payload.migrationId, error),
+  }
+);
+
+jobQueue.register<WebhookDeliveryPayload>(
+  WEBHOOK_DELIVERY_JOB,
+  (payload) => webhookService.attemptDelivery(payload.deliveryId),
+  {
+    onFailed: (payload, error) =>
+      webhookService.markFailed(payload.deliveryId, error),
+  }
+);
+
+jobQueue.register<UploadSessionExpirePayload>(
+  UPLOAD_SESSION_EXPIRE_JOB,
+  (payload) => uploadSessionService.expireSession(payload.sessionId)
+);
+
+export function startJobWorker(): void {
+  jobQueue.start();
+  console.log("Job worker started");
+}
+
+export function stopJobWorker(): void {
+  jobQueue.stop();
+}
+
+export { jobQueue };
@@ -0,0 +1,52 @@
+import mongoose, { Schema } from "mongoose";
+import type { IJobDocument } from "./job.type";
+
+const jobSchema = new Schema<IJobDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ["queued", "running", "completed", "failed"],
+      default: "queued",
+    },
+
+    // Retry tracking
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      required: true,
+    },
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Claim query: next runnable job
+jobSchema.index({ status: 1, runAt: 1 });
+
+export const Job = mongoose.model<IJobDocument>("Job", jobSchema);
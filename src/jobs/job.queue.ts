@@ -0,0 +1,205 @@
+import { Job } from "./job.model";
+import config from "@config/dotenv.config";
+import type { IJobDocument, EnqueueOptions } from "./job.type";
+
+export type JobHandler<T> = (payload: T, job: IJobDocument) => Promise<void>;
+
+export interface JobHandlerOptions<T> {
+  // Called once a job has failed for the last time
+  onFailed?: (payload: T, error: Error) => Promise<void>;
+}
+
+/**
+ * Thrown by a handler when retrying cannot help (e.g. invalid input).
+ */
+export class UnrecoverableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnrecoverableJobError";
+  }
+}
+
+interface RegisteredHandler {
+  handler: JobHandler<unknown>;
+  options: JobHandlerOptions<unknown>;
+}
+
+/**
+ * MongoDB-backed job queue. Workers run in-process and claim jobs atomically,
+ * so several service instances can share the same queue.
+ */
+export class JobQueue {
+  private handlers = new Map<string, RegisteredHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private active = 0;
+
+  register<T>(
+    name: string,
+    handler: JobHandler<T>,
+    options: JobHandlerOptions<T> = {}
+  ): void {
+    this.handlers.set(name, {
+      handler: handler as JobHandler<unknown>,
+      options: options as JobHandlerOptions<unknown>,
+    });
+  }
+
+  async enqueue<T extends object>(
+    name: string,
+    payload: T,
+    options: EnqueueOptions = {}
+  ): Promise<IJobDocument> {
+    return Job.create({
+      name,
+      payload,
+      status: "queued",
+      maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+      runAt: new Date(Date.now() + (options.delay ?? 0)),
+    });
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => void this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      while (this.running && this.active < config.jobs.concurrency) {
+        const job = await this.claim();
+        if (!job) break;
+
+        this.active++;
+        // Status writes can fail too; the lock then expires and the job reruns
+        void this.execute(job)
+          .catch((error) => {
+            console.error(
+              `Job ${job.name} (${job._id}) bookkeeping error:`,
+              error
+            );
+          })
+          .finally(() => {
+            this.active--;
+          });
+      }
+    } catch (error) {
+      console.error("Job queue poll error:", error);
+    }
+
+    if (this.running) {
+      this.schedule(config.jobs.pollInterval);
+    }
+  }
+
+  private async claim(): Promise<IJobDocument | null> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - config.jobs.lockTimeout);
+
+    return Job.findOneAndUpdate(
+      {
+        name: { $in: [...this.handlers.keys()] },
+        $or: [
+          { status: "queued", runAt: { $lte: now } },
+          // Recover jobs from workers that died mid-run
+          { status: "running", lockedAt: { $lt: staleBefore } },
+        ],
+      },
+      {
+        $set: { status: "running", lockedAt: now },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Refresh a running job's lock so long jobs (e.g. video transcoding) are
+   * not reclaimed by another worker. Stops once the lock has been lost.
+   */
+  private startHeartbeat(job: IJobDocument): NodeJS.Timeout {
+    let lockedAt = job.lockedAt;
+    const timer = setInterval(() => {
+      const now = new Date();
+      Job.updateOne(
+        { _id: job._id, status: "running", lockedAt },
+        { $set: { lockedAt: now } }
+      )
+        .then((result) => {
+          if (result.modifiedCount > 0) lockedAt = now;
+          else clearInterval(timer);
+        })
+        .catch((error) => {
+          console.error(`Job ${job.name} (${job._id}) heartbeat error:`, error);
+        });
+    }, config.jobs.lockTimeout / 3);
+    timer.unref();
+    return timer;
+  }
+
+  private async execute(job: IJobDocument): Promise<void> {
+    const registered = this.handlers.get(job.name);
+    if (!registered) return;
+
+    const heartbeat = this.startHeartbeat(job);
+    try {
+      await this.run(job, registered);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async run(
+    job: IJobDocument,
+    registered: RegisteredHandler
+  ): Promise<void> {
+    try {
+      await registered.handler(job.payload, job);
+      await Job.findByIdAndUpdate(job._id, {
+        $set: { status: "completed", completedAt: new Date() },
+        $unset: { lockedAt: 1 },
+      });
+    } catch (error) {
+      const err = error as Error;
+      const retryable =
+        !(err instanceof UnrecoverableJobError) &&
+        job.attempts < job.maxAttempts;
+
+      if (retryable) {
+        // Exponential backoff: base, 2x base, 4x base, ...
+        const delay = config.jobs.backoffBase * 2 ** (job.attempts - 1);
+        await Job.findByIdAndUpdate(job._id, {
+          $set: {
+            status: "queued",
+            runAt: new Date(Date.now() + delay),
+            lastError: err.message,
+          },
+          $unset: { lockedAt: 1 },
+        });
+        return;
+      }
+
+      console.error(`Job ${job.name} (${job._id}) failed:`, err);
+      await Job.findByIdAndUpdate(job._id, {
+        $set: { status: "failed", lastError: err.message },
+        $unset: { lockedAt: 1 },
+      });
+      await registered.options.onFailed?.(job.payload, err);
+    }
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,29 @@
+import type { Document } from "mongoose";
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface IJob {
+  _id?: string;
+  name: string; // Handler name, e.g. "media.process"
+  payload: Record<string, unknown>;
+  status: JobStatus;
+
+  // Retry tracking
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Not picked up before this time
+  lockedAt?: Date;
+  lastError?: string;
+  completedAt?: Date;
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IJobDocument extends Omit<IJob, "_id">, Document {}
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  delay?: number; // ms
+}
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from "express";
+import { getBearerToken, verifyAccessToken, isAdmin } from "@utils/auth.utils";
+import type { AuthUser } from "@utils/auth.utils";
+import { UnauthorizedError, ForbiddenError } from "./error.middleware";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: AuthUser;
+  }
+}
+
+// Require a valid bearer token and attach the caller to the request
+export async function authenticate(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const token = getBearerToken(req.headers.authorization);
+    if (!token) {
+      throw new UnauthorizedError("Missing bearer token");
+    }
+
+    req.user = await verifyAccessToken(token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Must run after authenticate
+export function requireAdmin(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void {
+  if (!req.user) {
+    next(new UnauthorizedError());
+    return;
+  }
+  if (!isAdmin(req.user)) {
+    next(new ForbiddenError("Admin role required"));
+    return;
+  }
+  next();
+}
+
+export function getAuthUser(req: Request): AuthUser {
+  if (!req.user) {
+    throw new UnauthorizedError();
+  }
+  return req.user;
+}
@@ -53,13 +53,19 @@ export class ConflictError extends HttpError {
   }
 }
 
+export class RangeNotSatisfiableError extends HttpError {
+  constructor(message: string = "Range not satisfiable") {
+    super(message, 416);
+  }
+}
+
 export class InternalServerError extends HttpError {
   constructor(message: string = "Internal server error") {
     super(message, 500);
   }
 }
 
-function handleZodError(err: ZodError): {
+export function handleZodError(err: ZodError): {
   statusCode: number;
   message: string;
   errors: { field: string; message: string }[];
@@ -0,0 +1,78 @@
+import path from "path";
+import express, { Request, Response, NextFunction } from "express";
+import config from "@config/dotenv.config";
+import { storageConfig } from "@config/storage.config";
+import { isPrivateKey } from "@utils/file.utils";
+import {
+  verifySignedResource,
+  getDownloadResource,
+} from "@utils/signature.utils";
+import { BadRequestError, ForbiddenError } from "./error.middleware";
+
+const serveStatic = express.static(
+  path.resolve(process.cwd(), storageConfig.local.uploadPath)
+);
+
+/**
+ * Serve files written by the local storage provider, mirroring signed
+ * S3 URLs: public files are served as-is, private files need the token
+ * from a signed URL, and quarantined or unscanned files are never served.
+ * Any token present is verified, and range requests are answered with 206.
+ * Checks run on the normalized key, which is also the file that gets served.
+ */
+export function serveLocalFiles(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  let key: string;
+  try {
+    key = path.posix.normalize(decodeURIComponent(req.path.replace(/^\//, "")));
+  } catch {
+    next(new BadRequestError("Invalid file path"));
+    return;
+  }
+  // "a/../private/x" must not get past the private and quarantine checks
+  if (key.startsWith("/") || key.split("/").includes("..")) {
+    next(new BadRequestError("Invalid file path"));
+    return;
+  }
+
+  if (
+    key.startsWith(config.malwareScanning.quarantinePrefix) ||
+    key.startsWith(config.malwareScanning.unscannedPrefix)
+  ) {
+    next(new ForbiddenError());
+    return;
+  }
+
+  const signature = req.query.signature;
+  if (signature !== undefined || isPrivateKey(key)) {
+    const disposition =
+      typeof req.query.disposition === "string"
+        ? req.query.disposition
+        : undefined;
+    if (
+      !verifySignedResource(
+        getDownloadResource(key, disposition),
+        Number(req.query.expires),
+        String(signature || "")
+      )
+    ) {
+      next(new ForbiddenError("Invalid or expired file signature"));
+      return;
+    }
+
+    if (disposition) {
+      res.setHeader("Content-Disposition", disposition);
+    }
+    // Signed responses must not outlive their token in shared caches
+    res.setHeader("Cache-Control", "private, no-store");
+  }
+
+  const queryIndex = req.url.indexOf("?");
+  req.url = `/${key.split("/").map(encodeURIComponent).join("/")}${
+    queryIndex === -1 ? "" : req.url.slice(queryIndex)
+  }`;
+  serveStatic(req, res, next);
+}
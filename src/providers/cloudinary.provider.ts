@@ -1,7 +1,36 @@
+import { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
 import { v2 as cloudinary, UploadApiResponse } from "cloudinary";
 import { storageConfig } from "@config/storage.config";
 import type { StorageProvider } from "./index";
-import type { UploadResult, MediaThumbnail } from "@media/media.type";
+import type {
+  UploadResult,
+  MediaThumbnail,
+  MultipartUploadPart,
+  PresignedUpload,
+  ByteRange,
+  StoredObjectStream,
+  SignedUrlOptions,
+} from "@media/media.type";
+import {
+  formatRangeHeader,
+  parseContentRange,
+  isPrivateKey,
+} from "@utils/file.utils";
+import { RangeNotSatisfiableError } from "@middlewares/error.middleware";
+
+const streamingMimeTypes = ["application/vnd.apple.mpegurl", "video/mp2t"];
+
+type DeliveryType = "upload" | "authenticated";
+
+interface CloudinaryResource {
+  public_id: string;
+  secure_url: string;
+  resource_type: string;
+  type: DeliveryType;
+  format?: string;
+  bytes: number;
+}
 
 export class CloudinaryProvider implements StorageProvider {
   constructor() {
@@ -22,6 +51,7 @@ export class CloudinaryProvider implements StorageProvider {
         {
           public_id: publicId,
           resource_type: resourceType,
+          type: this.getDeliveryType(publicId),
           overwrite: true,
         },
         (error, result) => {
@@ -41,7 +71,10 @@ export class CloudinaryProvider implements StorageProvider {
     mimeType: string
   ): Promise<{ url: string; key: string }> {
     const resourceType = this.getResourceType(mimeType);
-    const publicId = key.replace(/\.[^.]+$/, ""); // Remove extension
+    // HLS playlists reference segments by filename, so keep their extension
+    const publicId = streamingMimeTypes.includes(mimeType)
+      ? key
+      : key.replace(/\.[^.]+$/, ""); // Remove extension
 
     const result = await this.uploadToCloudinary(
       buffer,
@@ -105,33 +138,235 @@ export class CloudinaryProvider implements StorageProvider {
   }
 
   async delete(key: string): Promise<void> {
-    await cloudinary.uploader.destroy(key);
+    await cloudinary.uploader.destroy(key, {
+      type: this.getDeliveryType(key),
+    });
   }
 
   async deleteMany(keys: string[]): Promise<void> {
-    if (keys.length === 0) return;
-    await cloudinary.api.delete_resources(keys);
+    // Resources can only be deleted in bulk per delivery type
+    for (const type of ["upload", "authenticated"]) {
+      const batch = keys.filter((key) => this.getDeliveryType(key) === type);
+      if (batch.length === 0) continue;
+      await cloudinary.api.delete_resources(batch, { type });
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const resourceType of ["image", "video", "raw"]) {
+      await cloudinary.api.delete_resources_by_prefix(prefix, {
+        resource_type: resourceType,
+        type: this.getDeliveryType(prefix),
+      });
+    }
   }
 
-  async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (const resourceType of ["image", "video", "raw"]) {
+      let nextCursor: string | undefined;
+      do {
+        const page = await cloudinary.api.resources({
+          type: this.getDeliveryType(prefix),
+          resource_type: resourceType,
+          prefix,
+          max_results: 500,
+          next_cursor: nextCursor,
+        });
+        for (const resource of page.resources as CloudinaryResource[]) {
+          keys.push(resource.public_id);
+        }
+        nextCursor = page.next_cursor;
+      } while (nextCursor);
+    }
+    return keys;
+  }
+
+  async getSignedUrl(
+    key: string,
+    expiresIn: number = 3600,
+    options: SignedUrlOptions = {}
+  ): Promise<string> {
     const expireAt = Math.floor(Date.now() / 1000) + expiresIn;
     return cloudinary.url(key, {
       sign_url: true,
-      type: "authenticated",
+      secure: true,
+      type: this.getDeliveryType(key),
       expires_at: expireAt,
+      // Inline is Cloudinary's default; attachment names drop the extension
+      flags:
+        options.disposition === "attachment"
+          ? this.getAttachmentFlag(options.fileName)
+          : undefined,
     });
   }
 
+  private getAttachmentFlag(fileName?: string): string {
+    const name = fileName
+      ?.replace(/\.[^.]+$/, "")
+      .replace(/[^a-zA-Z0-9_-]/g, "_");
+    return name ? `attachment:${name}` : "attachment";
+  }
+
   async exists(key: string): Promise<boolean> {
-    try {
-      await cloudinary.api.resource(key);
-      return true;
-    } catch {
-      return false;
+    return (await this.findResource(key)) !== null;
+  }
+
+  async getSize(key: string): Promise<number> {
+    const resource = await this.findResource(key);
+    if (!resource) {
+      throw new Error(`Resource '${key}' not found`);
     }
+    return resource.bytes;
+  }
+
+  async download(key: string): Promise<Buffer> {
+    const resource = await this.findResource(key);
+    if (!resource) {
+      throw new Error(`Resource '${key}' not found`);
+    }
+
+    const response = await fetch(this.getFetchUrl(resource));
+    if (!response.ok) {
+      throw new Error(`Failed to download '${key}': ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const resource = await this.findResource(key);
+    if (!resource) {
+      throw new Error(`Resource '${key}' not found`);
+    }
+
+    const response = await fetch(this.getFetchUrl(resource), {
+      headers: range ? { Range: formatRangeHeader(range) } : undefined,
+    });
+    if (response.status === 416) {
+      throw new RangeNotSatisfiableError();
+    }
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download '${key}': ${response.status}`);
+    }
+
+    // A 200 means the CDN ignored the range and sent the whole object
+    const length = parseInt(response.headers.get("content-length") || "0", 10);
+    const contentRange = parseContentRange(
+      response.headers.get("content-range")
+    );
+    return {
+      stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      size: contentRange?.size ?? length,
+      start: contentRange?.start ?? 0,
+      end: contentRange?.end ?? length - 1,
+    };
+  }
+
+  // Signed upload parameters cannot cap the file size
+  async createPresignedUpload(
+    key: string,
+    mimeType: string,
+    _maxSize: number,
+    expiresIn: number = 900
+  ): Promise<PresignedUpload> {
+    const resourceType = this.getResourceType(mimeType);
+    const publicId = key.replace(/\.[^.]+$/, ""); // Remove extension
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    // Cloudinary rejects signatures older than one hour
+    const type = this.getDeliveryType(publicId);
+    const params = {
+      public_id: publicId,
+      timestamp: timestamp.toString(),
+      ...(type === "authenticated" && { type }),
+    };
+    const signature = cloudinary.utils.api_sign_request(
+      params,
+      storageConfig.cloudinary.api_secret
+    );
+
+    return {
+      url: `https://api.cloudinary.com/v1_1/${storageConfig.cloudinary.cloud_name}/${resourceType}/upload`,
+      method: "POST",
+      fields: {
+        ...params,
+        api_key: storageConfig.cloudinary.api_key,
+        signature,
+      },
+      key: publicId,
+      publicUrl: cloudinary.url(publicId, {
+        resource_type: resourceType,
+        type,
+        secure: true,
+      }),
+      expiresAt: new Date((timestamp + Math.min(expiresIn, 3600)) * 1000),
+    };
+  }
+
+  // Private media are uploaded as authenticated resources
+  private getDeliveryType(key: string): DeliveryType {
+    return isPrivateKey(key) ? "authenticated" : "upload";
+  }
+
+  // Authenticated resources can only be fetched through a signed URL
+  private getFetchUrl(resource: CloudinaryResource): string {
+    if (resource.type !== "authenticated") return resource.secure_url;
+    return cloudinary.url(resource.public_id, {
+      resource_type: resource.resource_type,
+      type: resource.type,
+      format: resource.format,
+      sign_url: true,
+      secure: true,
+    });
+  }
+
+  private async findResource(key: string): Promise<CloudinaryResource | null> {
+    // Resources are namespaced by type, so try each one
+    for (const resourceType of ["image", "video", "raw"]) {
+      try {
+        return await cloudinary.api.resource(key, {
+          resource_type: resourceType,
+          type: this.getDeliveryType(key),
+        });
+      } catch {
+        // Not found under this resource type
+      }
+    }
+    return null;
+  }
+
+  // Cloudinary has no part-level upload API we can resume against
+  async createMultipartUpload(
+    _key: string,
+    _mimeType: string
+  ): Promise<string> {
+    throw new Error("Resumable uploads are not supported by Cloudinary");
+  }
+
+  async uploadPart(
+    _key: string,
+    _uploadId: string,
+    _partNumber: number,
+    _buffer: Buffer
+  ): Promise<MultipartUploadPart> {
+    throw new Error("Resumable uploads are not supported by Cloudinary");
+  }
+
+  async completeMultipartUpload(
+    _key: string,
+    _uploadId: string,
+    _parts: MultipartUploadPart[]
+  ): Promise<{ url: string; key: string }> {
+    throw new Error("Resumable uploads are not supported by Cloudinary");
+  }
+
+  async abortMultipartUpload(_key: string, _uploadId: string): Promise<void> {
+    throw new Error("Resumable uploads are not supported by Cloudinary");
   }
 
   private getResourceType(mimeType: string): "image" | "video" | "raw" {
+    if (streamingMimeTypes.includes(mimeType)) return "raw";
     if (mimeType.startsWith("image/")) return "image";
     if (mimeType.startsWith("video/")) return "video";
     return "raw";
@@ -1,4 +1,11 @@
-import type { UploadResult } from "../v1/feat/media/media.type";
+import type {
+  UploadResult,
+  MultipartUploadPart,
+  PresignedUpload,
+  ByteRange,
+  StoredObjectStream,
+  SignedUrlOptions,
+} from "../v1/feat/media/media.type";
 import config from "@config/dotenv.config";
 import { S3Provider } from "./s3.provider";
 import { CloudinaryProvider } from "./cloudinary.provider";
@@ -22,15 +29,64 @@ export interface StorageProvider {
 
   deleteMany(keys: string[]): Promise<void>;
 
-  getSignedUrl(key: string, expiresIn?: number): Promise<string>;
+  // Remove every object under a key prefix (e.g. HLS segments)
+  deletePrefix(prefix: string): Promise<void>;
+
+  getSignedUrl(
+    key: string,
+    expiresIn?: number,
+    options?: SignedUrlOptions
+  ): Promise<string>;
 
   exists(key: string): Promise<boolean>;
+
+  // Size in bytes, read from metadata without fetching the object
+  getSize(key: string): Promise<number>;
+
+  download(key: string): Promise<Buffer>;
+
+  // Stream an object, or part of it, without buffering it in memory
+  getStream(key: string, range?: ByteRange): Promise<StoredObjectStream>;
+
+  // Direct-to-storage uploads (used by upload intents). Providers that can
+  // enforce maxSize at upload time do; completion checks it regardless.
+  createPresignedUpload(
+    key: string,
+    mimeType: string,
+    maxSize: number,
+    expiresIn?: number
+  ): Promise<PresignedUpload>;
+
+  // Multipart uploads (used by resumable upload sessions)
+  createMultipartUpload(key: string, mimeType: string): Promise<string>;
+
+  uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    buffer: Buffer
+  ): Promise<MultipartUploadPart>;
+
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[]
+  ): Promise<{ url: string; key: string }>;
+
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+
+  // Keys of every object under a prefix (used to copy HLS trees)
+  list(prefix: string): Promise<string[]>;
 }
 
 export { S3Provider, CloudinaryProvider, LocalProvider };
 
-export function createStorageProvider(): StorageProvider {
-  switch (config.storageProvider) {
+export type StorageProviderName = "s3" | "cloudinary" | "local";
+
+export function createStorageProvider(
+  name: StorageProviderName = config.storageProvider
+): StorageProvider {
+  switch (name) {
     case "s3":
       return new S3Provider();
     case "cloudinary":
@@ -41,4 +97,23 @@ export function createStorageProvider(): StorageProvider {
   }
 }
 
-export const storageProvider = createStorageProvider();
+const providers = new Map<StorageProviderName, StorageProvider>();
+
+/**
+ * Resolve the provider a record was stored with. Records keep their
+ * provider after STORAGE_PROVIDER changes, so look it up per record
+ * rather than using the default `storageProvider`.
+ */
+export function getStorageProvider(
+  name: StorageProviderName = config.storageProvider
+): StorageProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createStorageProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// Where new uploads are stored
+export const storageProvider = getStorageProvider();
@@ -1,9 +1,24 @@
 import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
+import crypto from "crypto";
 import path from "path";
+import { v4 as uuidv4 } from "uuid";
 import { storageConfig } from "@config/storage.config";
 import config from "@config/dotenv.config";
 import type { StorageProvider } from "./index";
-import type { UploadResult, MediaThumbnail } from "@media/media.type";
+import type {
+  UploadResult,
+  MediaThumbnail,
+  MultipartUploadPart,
+  PresignedUpload,
+  ByteRange,
+  StoredObjectStream,
+  SignedUrlOptions,
+} from "@media/media.type";
+import { signResource, getDownloadResource } from "@utils/signature.utils";
+import { resolveByteRange, formatContentDisposition } from "@utils/file.utils";
+
 export class LocalProvider implements StorageProvider {
   private uploadPath: string;
   private baseUrl: string;
@@ -13,7 +28,7 @@ export class LocalProvider implements StorageProvider {
       process.cwd(),
       storageConfig.local.uploadPath
     );
-    this.baseUrl = `http://localhost:${config.port}/uploads`;
+    this.baseUrl = `${config.publicUrl}/uploads`;
     this.ensureUploadDir();
   }
 
@@ -29,6 +44,10 @@ export class LocalProvider implements StorageProvider {
     return path.join(this.uploadPath, key);
   }
 
+  private getMultipartDir(uploadId: string): string {
+    return path.join(this.uploadPath, ".multipart", uploadId);
+  }
+
   async upload(
     buffer: Buffer,
     key: string,
@@ -98,10 +117,50 @@ export class LocalProvider implements StorageProvider {
     await Promise.all(keys.map((key) => this.delete(key)));
   }
 
-  async getSignedUrl(key: string, _expiresIn: number = 3600): Promise<string> {
-    // Local storage doesn't support signed URLs
-    // Return the direct URL
-    return `${this.baseUrl}/${key}`;
+  async deletePrefix(prefix: string): Promise<void> {
+    const dirPath = this.getFilePath(prefix);
+    // Never remove the upload root itself
+    if (path.resolve(dirPath) === this.uploadPath) return;
+    await fs.rm(dirPath, { recursive: true, force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const dirPath = this.getFilePath(prefix);
+    let files: string[];
+    try {
+      files = await fs.readdir(dirPath, { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const keys: string[] = [];
+    for (const file of files) {
+      if (!(await fs.stat(path.join(dirPath, file))).isFile()) continue;
+      keys.push(`${prefix}${file.split(path.sep).join("/")}`);
+    }
+    return keys;
+  }
+
+  async getSignedUrl(
+    key: string,
+    expiresIn: number = 3600,
+    options: SignedUrlOptions = {}
+  ): Promise<string> {
+    // Checked by the /uploads handler, which also applies the disposition
+    const disposition = options.disposition
+      ? formatContentDisposition(options.disposition, options.fileName)
+      : undefined;
+    const { expires, signature } = signResource(
+      getDownloadResource(key, disposition),
+      expiresIn
+    );
+    const query = new URLSearchParams({
+      expires: expires.toString(),
+      signature,
+      ...(disposition && { disposition }),
+    });
+    return `${this.baseUrl}/${key}?${query}`;
   }
 
   async exists(key: string): Promise<boolean> {
@@ -113,4 +172,112 @@ export class LocalProvider implements StorageProvider {
       return false;
     }
   }
+
+  async getSize(key: string): Promise<number> {
+    const { size } = await fs.stat(this.getFilePath(key));
+    return size;
+  }
+
+  async download(key: string): Promise<Buffer> {
+    return fs.readFile(this.getFilePath(key));
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const filePath = this.getFilePath(key);
+    const { size } = await fs.stat(filePath);
+    const { start, end } = resolveByteRange(range, size);
+
+    return {
+      stream: createReadStream(filePath, { start, end }),
+      size,
+      start,
+      end,
+    };
+  }
+
+  async createPresignedUpload(
+    key: string,
+    _mimeType: string,
+    _maxSize: number,
+    expiresIn: number = 900
+  ): Promise<PresignedUpload> {
+    // Uploads are received by the upload-intent route, which verifies this
+    // signature and rejects bodies larger than the intent declared
+    const { expires, signature } = signResource(`PUT:${key}`, expiresIn);
+    const query = new URLSearchParams({
+      key,
+      expires: expires.toString(),
+      signature,
+    });
+
+    return {
+      url: `${config.publicUrl}/v1/api/media/upload-intents/local?${query}`,
+      method: "PUT",
+      key,
+      publicUrl: `${this.baseUrl}/${key}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  async createMultipartUpload(
+    _key: string,
+    _mimeType: string
+  ): Promise<string> {
+    const uploadId = uuidv4();
+    await fs.mkdir(this.getMultipartDir(uploadId), { recursive: true });
+    return uploadId;
+  }
+
+  async uploadPart(
+    _key: string,
+    uploadId: string,
+    partNumber: number,
+    buffer: Buffer
+  ): Promise<MultipartUploadPart> {
+    const partPath = path.join(this.getMultipartDir(uploadId), `${partNumber}`);
+    await fs.writeFile(partPath, buffer);
+
+    return {
+      partNumber,
+      etag: crypto.createHash("md5").update(buffer).digest("hex"),
+      size: buffer.length,
+    };
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[]
+  ): Promise<{ url: string; key: string }> {
+    const filePath = this.getFilePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Stitch parts together in order without loading them into memory
+    const output = createWriteStream(filePath);
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    for (const part of sorted) {
+      const partPath = path.join(
+        this.getMultipartDir(uploadId),
+        `${part.partNumber}`
+      );
+      await pipeline(createReadStream(partPath), output, { end: false });
+    }
+    await new Promise<void>((resolve, reject) => {
+      output.end((err?: Error | null) => (err ? reject(err) : resolve()));
+    });
+
+    await fs.rm(this.getMultipartDir(uploadId), {
+      recursive: true,
+      force: true,
+    });
+
+    return { url: `${this.baseUrl}/${key}`, key };
+  }
+
+  async abortMultipartUpload(_key: string, uploadId: string): Promise<void> {
+    await fs.rm(this.getMultipartDir(uploadId), {
+      recursive: true,
+      force: true,
+    });
+  }
 }
@@ -5,11 +5,33 @@ import {
   DeleteObjectsCommand,
   GetObjectCommand,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
+import { Readable } from "stream";
 import { storageConfig } from "@config/storage.config";
 import type { StorageProvider } from "./index";
-import type { UploadResult, MediaThumbnail } from "@media/media.type";
+import type {
+  UploadResult,
+  MediaThumbnail,
+  MultipartUploadPart,
+  PresignedUpload,
+  ByteRange,
+  StoredObjectStream,
+  SignedUrlOptions,
+} from "@media/media.type";
+import {
+  formatRangeHeader,
+  parseContentRange,
+  isPrivateKey,
+  formatContentDisposition,
+} from "@utils/file.utils";
+import { RangeNotSatisfiableError } from "@middlewares/error.middleware";
 
 export class S3Provider implements StorageProvider {
   private client: S3Client;
@@ -36,13 +58,21 @@ export class S3Provider implements StorageProvider {
       Key: key,
       Body: buffer,
       ContentType: mimeType,
+      ACL: this.getAcl(key),
     });
 
     await this.client.send(command);
 
-    const url = `https://${this.bucket}.s3.${storageConfig.s3.region}.amazonaws.com/${key}`;
+    return { url: this.getPublicUrl(key), key };
+  }
+
+  // Private objects are only reachable through presigned URLs
+  private getAcl(key: string): "private" | undefined {
+    return isPrivateKey(key) ? "private" : undefined;
+  }
 
-    return { url, key };
+  private getPublicUrl(key: string): string {
+    return `https://${this.bucket}.s3.${storageConfig.s3.region}.amazonaws.com/${key}`;
   }
 
   async uploadWithThumbnails(
@@ -104,10 +134,61 @@ export class S3Provider implements StorageProvider {
     await this.client.send(command);
   }
 
-  async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async deletePrefix(prefix: string): Promise<void> {
+    let continuationToken: string | undefined;
+
+    do {
+      const list = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      // Listing pages hold at most 1000 keys, matching the DeleteObjects limit
+      const keys = (list.Contents || [])
+        .map((object) => object.Key)
+        .filter((key): key is string => Boolean(key));
+      await this.deleteMany(keys);
+
+      continuationToken = list.NextContinuationToken;
+    } while (continuationToken);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const list = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of list.Contents || []) {
+        if (object.Key) keys.push(object.Key);
+      }
+
+      continuationToken = list.NextContinuationToken;
+    } while (continuationToken);
+
+    return keys;
+  }
+
+  async getSignedUrl(
+    key: string,
+    expiresIn: number = 3600,
+    options: SignedUrlOptions = {}
+  ): Promise<string> {
     const command = new GetObjectCommand({
       Bucket: this.bucket,
       Key: key,
+      ResponseContentDisposition: options.disposition
+        ? formatContentDisposition(options.disposition, options.fileName)
+        : undefined,
     });
 
     return getSignedUrl(this.client, command, { expiresIn });
@@ -125,4 +206,166 @@ export class S3Provider implements StorageProvider {
       return false;
     }
   }
+
+  async getSize(key: string): Promise<number> {
+    const command = new HeadObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    const result = await this.client.send(command);
+    return result.ContentLength ?? 0;
+  }
+
+  async download(key: string): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    const result = await this.client.send(command);
+    if (!result.Body) {
+      throw new Error(`Object '${key}' has no body`);
+    }
+
+    return Buffer.from(await result.Body.transformToByteArray());
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<StoredObjectStream> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? formatRangeHeader(range) : undefined,
+    });
+
+    let result;
+    try {
+      result = await this.client.send(command);
+    } catch (error) {
+      if ((error as Error).name === "InvalidRange") {
+        throw new RangeNotSatisfiableError();
+      }
+      throw error;
+    }
+    if (!result.Body) {
+      throw new Error(`Object '${key}' has no body`);
+    }
+
+    const length = result.ContentLength ?? 0;
+    const contentRange = parseContentRange(result.ContentRange);
+    return {
+      stream: result.Body as Readable,
+      size: contentRange?.size ?? length,
+      start: contentRange?.start ?? 0,
+      end: contentRange?.end ?? length - 1,
+    };
+  }
+
+  async createPresignedUpload(
+    key: string,
+    mimeType: string,
+    maxSize: number,
+    expiresIn: number = 900
+  ): Promise<PresignedUpload> {
+    // A POST policy, unlike a presigned PUT, lets S3 reject oversized bodies
+    const acl = this.getAcl(key);
+    const { url, fields } = await createPresignedPost(this.client, {
+      Bucket: this.bucket,
+      Key: key,
+      Conditions: [
+        ["content-length-range", 0, maxSize],
+        ["eq", "$Content-Type", mimeType],
+      ],
+      Fields: {
+        "Content-Type": mimeType,
+        ...(acl && { acl }),
+      },
+      Expires: expiresIn,
+    });
+
+    return {
+      url,
+      method: "POST",
+      fields,
+      key,
+      publicUrl: this.getPublicUrl(key),
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    };
+  }
+
+  async createMultipartUpload(key: string, mimeType: string): Promise<string> {
+    const command = new CreateMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: mimeType,
+      ACL: this.getAcl(key),
+    });
+
+    const result = await this.client.send(command);
+    if (!result.UploadId) {
+      throw new Error("S3 did not return a multipart upload ID");
+    }
+
+    return result.UploadId;
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    buffer: Buffer
+  ): Promise<MultipartUploadPart> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: buffer,
+    });
+
+    const result = await this.client.send(command);
+
+    return {
+      partNumber,
+      etag: result.ETag || "",
+      size: buffer.length,
+    };
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[]
+  ): Promise<{ url: string; key: string }> {
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    });
+
+    await this.client.send(command);
+
+    return { url: this.getPublicUrl(key), key };
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const command = new AbortMultipartUploadCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+    });
+
+    try {
+      await this.client.send(command);
+    } catch (error) {
+      // Already aborted or completed; nothing left to release
+      if ((error as Error).name === "NoSuchUpload") return;
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,77 @@
+import net from "net";
+import config from "@config/dotenv.config";
+import type { MalwareScanner, ScanResult } from "./index";
+
+// clamd reads INSTREAM data in length-prefixed chunks
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Scans buffers with a clamd daemon using the INSTREAM command, over a
+ * unix socket when configured and TCP otherwise.
+ */
+export class ClamAVScanner implements MalwareScanner {
+  readonly name = "clamav";
+
+  scan(buffer: Buffer): Promise<ScanResult> {
+    const { host, port, socketPath, timeout } = config.malwareScanning.clamav;
+
+    return new Promise((resolve, reject) => {
+      const socket = socketPath
+        ? net.createConnection(socketPath)
+        : net.createConnection(port, host);
+      const response: Buffer[] = [];
+
+      socket.setTimeout(timeout);
+
+      socket.on("connect", () => {
+        socket.write("zINSTREAM\0");
+        for (
+          let offset = 0;
+          offset < buffer.length;
+          offset += STREAM_CHUNK_SIZE
+        ) {
+          const chunk = buffer.subarray(offset, offset + STREAM_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.end(Buffer.alloc(4));
+      });
+
+      socket.on("data", (data) => response.push(data));
+
+      socket.on("timeout", () => {
+        socket.destroy(new Error("ClamAV scan timed out"));
+      });
+
+      socket.on("error", reject);
+
+      socket.on("close", (hadError) => {
+        if (hadError) return;
+        try {
+          resolve(this.parseReply(Buffer.concat(response).toString()));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
+  // Replies look like "stream: OK" or "stream: <signature> FOUND"
+  private parseReply(reply: string): ScanResult {
+    const message = reply.replace(/\0/g, "").trim();
+
+    if (message.endsWith("OK")) {
+      return { infected: false };
+    }
+
+    const found = message.match(/^stream: (.+) FOUND$/);
+    if (found) {
+      return { infected: true, signature: found[1] };
+    }
+
+    throw new Error(`ClamAV scan failed: ${message || "no response"}`);
+  }
+}
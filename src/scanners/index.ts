@@ -0,0 +1,28 @@
+import config from "@config/dotenv.config";
+import { ClamAVScanner } from "./clamav.scanner";
+import { NoopScanner } from "./noop.scanner";
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string; // Name of the detected threat
+}
+
+export interface MalwareScanner {
+  readonly name: string;
+
+  scan(buffer: Buffer): Promise<ScanResult>;
+}
+
+export { ClamAVScanner, NoopScanner };
+
+export function createMalwareScanner(): MalwareScanner {
+  switch (config.malwareScanning.scanner) {
+    case "clamav":
+      return new ClamAVScanner();
+    case "none":
+    default:
+      return new NoopScanner();
+  }
+}
+
+export const malwareScanner = createMalwareScanner();
@@ -0,0 +1,21 @@
+import type { MalwareScanner, ScanResult } from "./index";
+
+// Industry-standard anti-virus test file (harmless by design), split so
+// this source file is not flagged itself
+const EICAR_SIGNATURE =
+  "X5O!P%@AP[4\\PZX54(P^)7CC)7}$" + "EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+/**
+ * Scanner for development and tests. Everything is clean except the EICAR
+ * test file, so the quarantine path can be exercised without clamd.
+ */
+export class NoopScanner implements MalwareScanner {
+  readonly name = "none";
+
+  async scan(buffer: Buffer): Promise<ScanResult> {
+    if (buffer.includes(EICAR_SIGNATURE)) {
+      return { infected: true, signature: "Eicar-Test-Signature" };
+    }
+    return { infected: false };
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Move media between storage providers from the command line, without the
+ * job worker:
+ *
+ *   npm run migrate:storage -- --from local --to s3 [--batch-size 50] [--dry-run]
+ *   npm run migrate:storage -- --resume <migrationId>
+ */
+import { parseArgs } from "util";
+import { connectDatabase, mongoose } from "@config/db";
+import { storageMigrationService } from "@storage-migration/storage-migration.service";
+import { StorageProvider } from "@media/media.type";
+import type { IStorageMigration } from "@storage-migration/storage-migration.type";
+
+const PROVIDERS = Object.values(StorageProvider) as string[];
+
+function parseProvider(
+  value: string | undefined,
+  flag: string
+): StorageProvider {
+  if (!value || !PROVIDERS.includes(value)) {
+    throw new Error(`--${flag} must be one of: ${PROVIDERS.join(", ")}`);
+  }
+  return value as StorageProvider;
+}
+
+async function createOrResume(): Promise<IStorageMigration> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      "batch-size": { type: "string", default: "50" },
+      "dry-run": { type: "boolean", default: false },
+      resume: { type: "string" },
+    },
+  });
+
+  if (values.resume) {
+    return storageMigrationService.startMigration(values.resume, {
+      enqueue: false,
+    });
+  }
+
+  const batchSize = Number(values["batch-size"]);
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 500) {
+    throw new Error("--batch-size must be an integer between 1 and 500");
+  }
+
+  const created = await storageMigrationService.createMigration({
+    from: parseProvider(values.from, "from"),
+    to: parseProvider(values.to, "to"),
+    dryRun: values["dry-run"] ?? false,
+    batchSize,
+    startedBy: "cli",
+  });
+  return storageMigrationService.startMigration(String(created.id), {
+    enqueue: false,
+  });
+}
+
+async function main(): Promise<void> {
+  await connectDatabase();
+
+  const migration = await createOrResume();
+  const id = String(migration.id);
+  console.log(
+    `Migrating ${migration.from} -> ${migration.to}` +
+      `${migration.dryRun ? " (dry run)" : ""}, migration ${id}`
+  );
+
+  try {
+    while (await storageMigrationService.runBatch(id)) {
+      const { stats } = await storageMigrationService.getMigration(id);
+      console.log(`Processed ${stats.processed}/${stats.total}`);
+    }
+  } catch (error) {
+    await storageMigrationService.markFailed(id, error as Error);
+    throw error;
+  }
+
+  const result = await storageMigrationService.getMigration(id);
+  console.log(JSON.stringify(result.stats, null, 2));
+  if (result.failures.length > 0) {
+    console.log(`${result.stats.failed} media failed, for example:`);
+    console.log(JSON.stringify(result.failures.slice(0, 10), null, 2));
+  }
+}
+
+main()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    console.error("Storage migration failed:", (error as Error).message);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
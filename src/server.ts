@@ -1,19 +1,23 @@
 import express, { Application } from "express";
 import cors from "cors";
 import helmet from "helmet";
-import path from "path";
+import fs from "fs";
 import http from "http";
 import * as grpc from "@grpc/grpc-js";
 import { ReflectionService } from "@grpc/reflection";
 import config from "@config/dotenv.config";
 import { MediaService, mediaPackageDefinition } from "./grpc/index";
 import { mediaGrpcService } from "./grpc/servers/media.server";
+import { authInterceptor } from "./grpc/interceptors/auth.interceptor";
 import v1Routes from "./v1/route/index";
 import {
   errorMiddleware,
   notFoundMiddleware,
 } from "./middlewares/error.middleware";
+import { serveLocalFiles } from "./middlewares/local-files.middleware";
 import { connectDatabase } from "@config/db";
+import { startJobWorker, stopJobWorker } from "@jobs/index";
+import { startEventDispatcher, stopEventDispatcher } from "@events/index";
 
 export default class Server {
   public app: Application;
@@ -22,7 +26,7 @@ export default class Server {
 
   constructor() {
     this.app = express();
-    this.grpcServer = new grpc.Server();
+    this.grpcServer = new grpc.Server({ interceptors: [authInterceptor] });
     this.setupMiddlewares();
     this.setupRoutes();
     this.setupGrpcServices();
@@ -37,10 +41,8 @@ export default class Server {
     this.app.use(cors());
     this.app.use(express.json());
     this.app.use(express.urlencoded({ extended: true }));
-    this.app.use(
-      "/uploads",
-      express.static(path.join(process.cwd(), "uploads"))
-    );
+    // Local storage files; private ones require a signed URL
+    this.app.use("/uploads", serveLocalFiles);
   }
 
   private setupRoutes(): void {
@@ -68,17 +70,43 @@ export default class Server {
   private async connectDatabase(): Promise<void> {
     try {
       await connectDatabase();
+      if (config.jobs.workerEnabled) {
+        startJobWorker();
+      }
+      if (config.events.dispatcherEnabled) {
+        startEventDispatcher();
+      }
     } catch (error) {
       console.error("Database connection failed:", error);
       process.exit(1);
     }
   }
 
+  private createGrpcCredentials(): grpc.ServerCredentials {
+    const { enabled, certPath, keyPath, caPath } = config.grpcTls;
+    if (!enabled) {
+      return grpc.ServerCredentials.createInsecure();
+    }
+
+    // With a CA configured, clients must present a certificate it signed
+    const rootCert = caPath ? fs.readFileSync(caPath) : null;
+    return grpc.ServerCredentials.createSsl(
+      rootCert,
+      [
+        {
+          cert_chain: fs.readFileSync(certPath),
+          private_key: fs.readFileSync(keyPath),
+        },
+      ],
+      Boolean(rootCert)
+    );
+  }
+
   private async startGrpcServer(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.grpcServer.bindAsync(
         `0.0.0.0:${config.grpcPort}`,
-        grpc.ServerCredentials.createInsecure(),
+        this.createGrpcCredentials(),
         (err, port) => {
           if (err) {
             reject(err);
@@ -95,6 +123,9 @@ export default class Server {
     const shutdown = async (signal: string): Promise<void> => {
       console.log(`\n${signal} received. Shutting down gracefully...`);
 
+      stopJobWorker();
+      stopEventDispatcher();
+
       if (this.httpServer) {
         this.httpServer.close(() => {
           console.log("✅ HTTP server closed");
@@ -0,0 +1,116 @@
+import { createRemoteJWKSet, jwtVerify } from "jose";
+import type { JWTPayload, JWTVerifyGetKey } from "jose";
+import config from "@config/dotenv.config";
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  InternalServerError,
+} from "@middlewares/error.middleware";
+
+export interface AuthUser {
+  id: string;
+  roles: string[];
+  entities: Record<string, string[]>; // Owned entity ids, keyed by entity type
+}
+
+// Anything that belongs to an uploader and an owning entity
+export interface OwnedResource {
+  uploadedBy: string;
+  entityType: string;
+  entityId: string;
+}
+
+let remoteKeySet: JWTVerifyGetKey | undefined;
+
+async function verifyToken(token: string): Promise<JWTPayload> {
+  const { jwksUri, jwtSecret, issuer, audience } = config.auth;
+  const options = { issuer, audience };
+
+  if (jwksUri) {
+    remoteKeySet ??= createRemoteJWKSet(new URL(jwksUri));
+    return (await jwtVerify(token, remoteKeySet, options)).payload;
+  }
+  if (jwtSecret) {
+    const secret = new TextEncoder().encode(jwtSecret);
+    return (await jwtVerify(token, secret, options)).payload;
+  }
+
+  throw new InternalServerError("Authentication is not configured");
+}
+
+export function getBearerToken(header?: string): string | undefined {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Verify a JWT and map its claims to the caller's identity.
+ */
+export async function verifyAccessToken(token: string): Promise<AuthUser> {
+  let payload: JWTPayload;
+  try {
+    payload = await verifyToken(token);
+  } catch (error) {
+    if (error instanceof InternalServerError) throw error;
+    throw new UnauthorizedError("Invalid or expired token");
+  }
+
+  if (!payload.sub) {
+    throw new UnauthorizedError("Token has no subject");
+  }
+
+  const roles = payload[config.auth.rolesClaim];
+  const entities = payload[config.auth.entitiesClaim];
+
+  return {
+    id: payload.sub,
+    roles: Array.isArray(roles) ? roles.map(String) : [],
+    entities:
+      entities && typeof entities === "object" && !Array.isArray(entities)
+        ? (entities as Record<string, string[]>)
+        : {},
+  };
+}
+
+export function isAdmin(user: AuthUser): boolean {
+  return user.roles.some((role) => config.auth.adminRoles.includes(role));
+}
+
+/**
+ * The uploader, an owner of the entity, or an admin may manage a resource.
+ * A user entity is owned by the user with the same id.
+ */
+export function canManage(user: AuthUser, resource: OwnedResource): boolean {
+  if (isAdmin(user)) return true;
+  if (resource.uploadedBy === user.id) return true;
+  if (resource.entityType === "user" && resource.entityId === user.id) {
+    return true;
+  }
+
+  const owned = user.entities[resource.entityType];
+  return Array.isArray(owned) && owned.includes(resource.entityId);
+}
+
+/**
+ * `canManage` as query conditions, any of which must match. Null for admins,
+ * who may manage everything.
+ */
+export function getManageableConditions(
+  user: AuthUser
+): Record<string, unknown>[] | null {
+  if (isAdmin(user)) return null;
+
+  return [
+    { uploadedBy: user.id },
+    { entityType: "user", entityId: user.id },
+    ...Object.entries(user.entities)
+      .filter(([, ids]) => Array.isArray(ids))
+      .map(([entityType, ids]) => ({ entityType, entityId: { $in: ids } })),
+  ];
+}
+
+export function assertCanManage(user: AuthUser, resource: OwnedResource): void {
+  if (!canManage(user, resource)) {
+    throw new ForbiddenError("You do not have permission to modify this media");
+  }
+}
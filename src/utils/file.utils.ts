@@ -1,5 +1,7 @@
 import config from "@config/dotenv.config";
 import { MediaType } from "@media/media.type";
+import type { ByteRange, ContentDisposition } from "@media/media.type";
+import { RangeNotSatisfiableError } from "@middlewares/error.middleware";
 
 const imageExtensions = [
   ".jpg",
@@ -21,6 +23,138 @@ const documentExtensions = [
   ".pptx",
 ];
 
+// MIME types sharing a container format that clients commonly mislabel
+const compatibleMimeTypes: string[][] = [["video/mp4", "video/quicktime"]];
+
+// Office Open XML documents are ZIP archives
+const zipBasedMimeTypes = [
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+
+// Legacy Office documents are OLE compound files
+const oleBasedMimeTypes = [
+  "application/msword",
+  "application/vnd.ms-excel",
+  "application/vnd.ms-powerpoint",
+];
+
+function startsWithBytes(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function asciiAt(buffer: Buffer, offset: number, length: number): string {
+  return buffer.toString("latin1", offset, offset + length);
+}
+
+/**
+ * Detect a file's MIME type from its leading bytes (magic numbers).
+ * Returns null when the signature is not recognised.
+ */
+export function detectMimeType(
+  buffer: Buffer,
+  claimedMimeType?: string
+): string | null {
+  if (startsWithBytes(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (
+    startsWithBytes(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+  ) {
+    return "image/png";
+  }
+  if (["GIF87a", "GIF89a"].includes(asciiAt(buffer, 0, 6))) return "image/gif";
+  if (asciiAt(buffer, 0, 4) === "RIFF" && asciiAt(buffer, 8, 4) === "WEBP") {
+    return "image/webp";
+  }
+  if (asciiAt(buffer, 0, 2) === "BM") return "image/bmp";
+  if (["II*\0", "MM\0*"].includes(asciiAt(buffer, 0, 4))) return "image/tiff";
+
+  // ISO base media file format (MP4, QuickTime, AVIF, HEIC)
+  if (asciiAt(buffer, 4, 4) === "ftyp") {
+    const brand = asciiAt(buffer, 8, 4);
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "mif1"].includes(brand)) return "image/heic";
+    return "video/mp4";
+  }
+
+  // EBML header (WebM / Matroska)
+  if (startsWithBytes(buffer, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return asciiAt(buffer, 0, 64).includes("webm")
+      ? "video/webm"
+      : "video/x-matroska";
+  }
+  if (asciiAt(buffer, 8, 4) === "AVI " && asciiAt(buffer, 0, 4) === "RIFF") {
+    return "video/x-msvideo";
+  }
+
+  if (asciiAt(buffer, 0, 5) === "%PDF-") return "application/pdf";
+
+  // Containers shared by several document formats: trust the claimed subtype
+  if (startsWithBytes(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    return claimedMimeType && zipBasedMimeTypes.includes(claimedMimeType)
+      ? claimedMimeType
+      : "application/zip";
+  }
+  if (
+    startsWithBytes(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+  ) {
+    return claimedMimeType && oleBasedMimeTypes.includes(claimedMimeType)
+      ? claimedMimeType
+      : "application/x-ole-storage";
+  }
+
+  return null;
+}
+
+function isCompatibleMimeType(claimed: string, detected: string): boolean {
+  if (claimed === detected) return true;
+  return compatibleMimeTypes.some(
+    (group) => group.includes(claimed) && group.includes(detected)
+  );
+}
+
+// Leading bytes that hold every signature detectMimeType looks for
+export const FILE_SIGNATURE_BYTES = 4096;
+
+/**
+ * Check a file's content against its declared MIME type. On success the
+ * detected type is returned so callers can record it instead of the claim.
+ */
+export function verifyFileSignature(
+  buffer: Buffer,
+  claimedMimeType: string
+): {
+  valid: boolean;
+  mimeType?: string;
+  error?: string;
+} {
+  const detected = detectMimeType(buffer, claimedMimeType);
+
+  if (!detected) {
+    return {
+      valid: false,
+      error: `Unable to verify file content as '${claimedMimeType}'`,
+    };
+  }
+
+  if (!isCompatibleMimeType(claimedMimeType, detected)) {
+    return {
+      valid: false,
+      error: `File content is '${detected}' but was declared as '${claimedMimeType}'`,
+    };
+  }
+
+  if (!isAllowedMimeType(detected)) {
+    return {
+      valid: false,
+      error: `File type '${detected}' is not allowed`,
+    };
+  }
+
+  return { valid: true, mimeType: detected };
+}
+
 export function getMediaTypeFromMime(mimeType: string): MediaType {
   if (mimeType.startsWith("image/")) return MediaType.IMAGE;
   if (mimeType.startsWith("video/")) return MediaType.VIDEO;
@@ -46,6 +180,70 @@ export function getFileExtension(filename: string): string {
   return lastDot !== -1 ? filename.slice(lastDot).toLowerCase() : "";
 }
 
+/**
+ * Prefix under which derived files for a stored object live,
+ * e.g. "property/1/videos/123-abc.mp4" -> "property/1/videos/123-abc/".
+ */
+export function getDerivativePrefix(storagePath: string): string {
+  return `${storagePath.replace(/\.[^./]+$/, "")}/`;
+}
+
+// Infected files are moved under a separate prefix that is never served
+export function getQuarantineKey(key: string): string {
+  return `${config.malwareScanning.quarantinePrefix}${key}`;
+}
+
+// Files uploaded straight to storage stay under this prefix until scanned
+export function getUnscannedKey(key: string): string {
+  return `${config.malwareScanning.unscannedPrefix}${key}`;
+}
+
+// Where a file under the unscanned prefix moves once it is found clean
+export function getScannedKey(key: string): string {
+  const prefix = config.malwareScanning.unscannedPrefix;
+  return key.startsWith(prefix) ? key.slice(prefix.length) : key;
+}
+
+// Private media keep their files under a prefix providers store privately
+export function getPrivateKey(key: string): string {
+  return `${config.mediaVisibility.privatePrefix}${key}`;
+}
+
+// Objects that must never be publicly readable, derivatives included
+export function isPrivateKey(key: string): boolean {
+  return (
+    key.startsWith(config.mediaVisibility.privatePrefix) ||
+    key.startsWith(config.malwareScanning.quarantinePrefix) ||
+    key.startsWith(config.malwareScanning.unscannedPrefix)
+  );
+}
+
+/**
+ * Build a Content-Disposition header value. Non-ASCII names are sent in
+ * the RFC 5987 `filename*` form with an ASCII fallback for old clients.
+ */
+export function formatContentDisposition(
+  disposition: ContentDisposition,
+  fileName?: string
+): string {
+  if (!fileName) return disposition;
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(
+    fileName
+  )}`;
+}
+
+/**
+ * Key of the untouched upload. Records created before originals were kept
+ * only have the processed file at storagePath.
+ */
+export function getOriginalKey(media: {
+  storagePath: string;
+  original?: { key: string };
+}): string {
+  return media.original?.key || media.storagePath;
+}
+
 export function getMediaTypeFromExtension(filename: string): MediaType | null {
   const ext = getFileExtension(filename);
 
@@ -93,25 +291,79 @@ export function formatFileSize(bytes: number): string {
   return `${size.toFixed(2)} ${units[unitIndex]}`;
 }
 
-export function validateFile(file: Express.Multer.File): {
+export function validateUpload(
+  mimeType: string,
+  size: number,
+  maxSize: number = config.maxFileSize
+): {
   valid: boolean;
   error?: string;
 } {
-  if (!isAllowedMimeType(file.mimetype)) {
+  if (!isAllowedMimeType(mimeType)) {
     return {
       valid: false,
-      error: `File type '${file.mimetype}' is not allowed`,
+      error: `File type '${mimeType}' is not allowed`,
     };
   }
 
-  if (!isAllowedFileSize(file.size)) {
+  if (size > maxSize) {
     return {
       valid: false,
       error: `File size ${formatFileSize(
-        file.size
-      )} exceeds maximum allowed size of ${formatFileSize(config.maxFileSize)}`,
+        size
+      )} exceeds maximum allowed size of ${formatFileSize(maxSize)}`,
     };
   }
 
   return { valid: true };
 }
+
+export function validateFile(
+  file: Pick<Express.Multer.File, "mimetype" | "size" | "buffer">
+): {
+  valid: boolean;
+  mimeType?: string; // Detected from the file content
+  error?: string;
+} {
+  const validation = validateUpload(file.mimetype, file.size);
+  if (!validation.valid) {
+    return validation;
+  }
+
+  return verifyFileSignature(file.buffer, file.mimetype);
+}
+
+/**
+ * Clamp a requested byte range to an object of the given size.
+ */
+export function resolveByteRange(
+  range: ByteRange | undefined,
+  size: number
+): { start: number; end: number } {
+  const start = range?.start ?? 0;
+  const end = Math.min(range?.end ?? size - 1, size - 1);
+  if (start < 0 || start > end) {
+    throw new RangeNotSatisfiableError(
+      `Range ${start}-${range?.end ?? ""} is outside object of ${size} bytes`
+    );
+  }
+  return { start, end };
+}
+
+// Value for an HTTP Range request header
+export function formatRangeHeader(range: ByteRange): string {
+  return `bytes=${range.start}-${range.end ?? ""}`;
+}
+
+// Parse a "bytes start-end/size" Content-Range response header
+export function parseContentRange(
+  header: string | undefined | null
+): { start: number; end: number; size: number } | null {
+  const match = header?.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  if (!match) return null;
+  return {
+    start: parseInt(match[1], 10),
+    end: parseInt(match[2], 10),
+    size: parseInt(match[3], 10),
+  };
+}
@@ -10,16 +10,14 @@ export interface ImageProcessingOptions {
 }
 
 export interface ThumbnailOptions {
+  name?: string;
   width: number;
   height: number;
   fit?: keyof sharp.FitEnum;
 }
 
-const defaultThumbnailSizes: ThumbnailOptions[] = [
-  { width: 150, height: 150, fit: "cover" },
-  { width: 300, height: 200, fit: "cover" },
-  { width: 600, height: 400, fit: "inside" },
-];
+const defaultThumbnailSizes: ThumbnailOptions[] =
+  config.imageProcessing.variants;
 
 export async function processImage(
   buffer: Buffer,
@@ -74,11 +72,29 @@ export async function processImage(
   };
 }
 
+// Center-crop to the largest square, e.g. for profile pictures
+export async function cropToSquare(buffer: Buffer): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(buffer).metadata();
+  const size = Math.min(width, height);
+  if (!size) return buffer;
+
+  return sharp(buffer)
+    .rotate() // Respect EXIF orientation
+    .resize(size, size, { fit: "cover" })
+    .png() // Lossless and keeps transparency; derivatives re-encode it
+    .toBuffer();
+}
+
 export async function generateThumbnails(
   buffer: Buffer,
   sizes: ThumbnailOptions[] = defaultThumbnailSizes
-): Promise<{ buffer: Buffer; width: number; height: number }[]> {
-  const thumbnails: { buffer: Buffer; width: number; height: number }[] = [];
+): Promise<{ name: string; buffer: Buffer; width: number; height: number }[]> {
+  const thumbnails: {
+    name: string;
+    buffer: Buffer;
+    width: number;
+    height: number;
+  }[] = [];
 
   for (const size of sizes) {
     const thumbnail = await sharp(buffer)
@@ -91,6 +107,7 @@ export async function generateThumbnails(
 
     const meta = await sharp(thumbnail).metadata();
     thumbnails.push({
+      name: size.name || `${size.width}x${size.height}`,
       buffer: thumbnail,
       width: meta.width || size.width,
       height: meta.height || size.height,
@@ -138,3 +155,29 @@ export async function createThumbnail(
     .webp({ quality: 75 })
     .toBuffer();
 }
+
+export interface TransformOptions {
+  width?: number;
+  height?: number;
+  fit?: keyof sharp.FitEnum;
+  format: "webp" | "avif" | "jpeg" | "png";
+  quality: number;
+}
+
+export async function transformImage(
+  buffer: Buffer,
+  options: TransformOptions
+): Promise<Buffer> {
+  let image = sharp(buffer).rotate(); // Respect EXIF orientation
+
+  if (options.width || options.height) {
+    image = image.resize(options.width, options.height, {
+      fit: options.fit || "cover",
+      withoutEnlargement: true,
+    });
+  }
+
+  return image
+    .toFormat(options.format, { quality: options.quality })
+    .toBuffer();
+}
@@ -0,0 +1,56 @@
+import crypto from "crypto";
+import config from "@config/dotenv.config";
+
+export function createSignature(payload: string): string {
+  return crypto
+    .createHmac("sha256", config.urlSigningSecret)
+    .update(payload)
+    .digest("hex");
+}
+
+export function verifySignature(payload: string, signature: string): boolean {
+  const expected = Buffer.from(createSignature(payload), "hex");
+  const received = Buffer.from(signature, "hex");
+  if (expected.length !== received.length) return false;
+  return crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Sign a webhook body for its receiver. The timestamp is signed with the
+ * body so a captured delivery cannot be replayed later.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+// Local downloads sign the key together with any response overrides
+export function getDownloadResource(key: string, disposition?: string): string {
+  return disposition ? `GET:${key}:${disposition}` : `GET:${key}`;
+}
+
+export function signResource(
+  resource: string,
+  expiresIn: number
+): { expires: number; signature: string } {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  return {
+    expires,
+    signature: createSignature(`${resource}:${expires}`),
+  };
+}
+
+export function verifySignedResource(
+  resource: string,
+  expires: number,
+  signature: string
+): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+  return verifySignature(`${resource}:${expires}`, signature);
+}
@@ -1,4 +1,6 @@
 import ffmpeg from "fluent-ffmpeg";
+import fs from "fs/promises";
+import path from "path";
 import { PassThrough } from "stream";
 import config from "@config/dotenv.config";
 
@@ -136,3 +138,110 @@ export function getVideoDuration(inputPath: string): Promise<number> {
     });
   });
 }
+
+export interface HlsRenditionOptions {
+  name: string;
+  width: number;
+  height: number;
+  bitrate: string; // e.g. "2800k"
+}
+
+export interface HlsRendition {
+  name: string;
+  width: number;
+  height: number;
+  bandwidth: number; // bits per second, as advertised in the master playlist
+}
+
+function parseBitrate(bitrate: string): number {
+  const value = parseFloat(bitrate);
+  if (/m$/i.test(bitrate)) return value * 1_000_000;
+  if (/k$/i.test(bitrate)) return value * 1000;
+  return value;
+}
+
+function transcodeHlsRendition(
+  inputPath: string,
+  outputDir: string,
+  height: number,
+  bitrate: string,
+  segmentDuration: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .outputOptions([
+        `-vf scale=-2:${height}`,
+        "-c:v libx264",
+        "-preset veryfast",
+        `-b:v ${bitrate}`,
+        `-maxrate ${bitrate}`,
+        `-bufsize ${parseBitrate(bitrate) * 2}`,
+        "-c:a aac",
+        "-b:a 128k",
+        `-hls_time ${segmentDuration}`,
+        "-hls_playlist_type vod",
+        `-hls_segment_filename ${outputDir}/segment_%03d.ts`,
+        "-f hls",
+      ])
+      .output(`${outputDir}/index.m3u8`)
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+}
+
+/**
+ * Transcode a video into an HLS ladder under outputDir:
+ * master.m3u8 plus one <name>/index.m3u8 and its segments per rendition.
+ * Renditions taller than the source are skipped (the smallest is always kept).
+ */
+export async function generateHlsRenditions(
+  inputPath: string,
+  outputDir: string,
+  source: { width: number; height: number },
+  renditions: HlsRenditionOptions[] = config.videoProcessing.hls.renditions,
+  segmentDuration: number = config.videoProcessing.hls.segmentDuration
+): Promise<HlsRendition[]> {
+  const sorted = [...renditions].sort((a, b) => a.height - b.height);
+  const ladder = sorted.filter((r, i) => i === 0 || r.height <= source.height);
+
+  const results: HlsRendition[] = [];
+  for (const rendition of ladder) {
+    const height = Math.min(rendition.height, source.height);
+    const evenHeight = height - (height % 2);
+    const width =
+      source.height > 0
+        ? Math.round((source.width * evenHeight) / source.height / 2) * 2
+        : rendition.width;
+
+    const renditionDir = path.join(outputDir, rendition.name);
+    await fs.mkdir(renditionDir, { recursive: true });
+    await transcodeHlsRendition(
+      inputPath,
+      renditionDir,
+      evenHeight,
+      rendition.bitrate,
+      segmentDuration
+    );
+
+    results.push({
+      name: rendition.name,
+      width,
+      height: evenHeight,
+      bandwidth: parseBitrate(rendition.bitrate) + 128_000, // video + audio
+    });
+  }
+
+  const master = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    ...results.flatMap((r) => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${r.bandwidth},RESOLUTION=${r.width}x${r.height}`,
+      `${r.name}/index.m3u8`,
+    ]),
+    "",
+  ].join("\n");
+  await fs.writeFile(path.join(outputDir, "master.m3u8"), master);
+
+  return results;
+}
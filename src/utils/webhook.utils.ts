@@ -0,0 +1,46 @@
+import { signWebhookPayload } from "./signature.utils";
+import type { MediaEvent } from "@events/event.type";
+
+// Longest response body kept for delivery logs
+const MAX_RESPONSE_BODY = 1024;
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number;
+  body: string; // Truncated
+}
+
+/**
+ * POST a media event as JSON. The receiver verifies `X-Media-Signature`
+ * (t=<timestamp>,v1=<hmac>) against the shared secret.
+ */
+export async function postWebhook(
+  url: string,
+  secret: string,
+  event: MediaEvent,
+  options: { timeout: number; headers?: Record<string, string> }
+): Promise<WebhookResponse> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = signWebhookPayload(secret, timestamp, body);
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Media-Event": event.type,
+      "X-Media-Event-Id": event.id,
+      "X-Media-Signature": `t=${timestamp},v1=${signature}`,
+      ...options.headers,
+    },
+    body,
+    signal: AbortSignal.timeout(options.timeout),
+  });
+
+  const text = await response.text().catch(() => "");
+  return {
+    ok: response.ok,
+    status: response.status,
+    body: text.slice(0, MAX_RESPONSE_BODY),
+  };
+}
@@ -0,0 +1,44 @@
+import mongoose, { Schema } from "mongoose";
+import type { Document } from "mongoose";
+import { StorageProvider } from "./media.type";
+
+export interface IMediaBlob {
+  contentHash: string; // SHA-256 of the uploaded bytes
+  storageProvider: StorageProvider;
+  originalKey: string;
+  refCount: number; // Media records pointing at this blob
+}
+
+export interface IMediaBlobDocument extends IMediaBlob, Document {}
+
+const mediaBlobSchema = new Schema<IMediaBlobDocument>(
+  {
+    contentHash: {
+      type: String,
+      required: true,
+    },
+    storageProvider: {
+      type: String,
+      enum: Object.values(StorageProvider),
+      required: true,
+    },
+    originalKey: {
+      type: String,
+      required: true,
+    },
+    refCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+mediaBlobSchema.index({ contentHash: 1, storageProvider: 1 }, { unique: true });
+
+export const MediaBlob = mongoose.model<IMediaBlobDocument>(
+  "MediaBlob",
+  mediaBlobSchema
+);
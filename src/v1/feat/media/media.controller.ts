@@ -7,9 +7,14 @@ import {
   queryMediaSchema,
   bulkDeleteSchema,
   getByEntitySchema,
+  reorderMediaSchema,
+  renderMediaSchema,
+  getSignedUrlSchema,
 } from "@validations/media.validation";
+import config from "@config/dotenv.config";
 import { BadRequestError } from "@middlewares/error.middleware";
-import { EntityType, MediaType } from "./media.type";
+import { getAuthUser } from "@middlewares/auth.middleware";
+import { MediaType } from "./media.type";
 
 export class MediaController {
   async uploadSingle(
@@ -23,13 +28,15 @@ export class MediaController {
       }
 
       const { body } = uploadMediaSchema.parse({ body: req.body });
-      const uploadedBy = (req.headers["x-user-id"] as string) || "anonymous";
+      const actor = getAuthUser(req);
 
       const media = await mediaService.uploadMedia(req.file, {
-        entityType: body.entityType as EntityType,
+        entityType: body.entityType,
         entityId: body.entityId,
         fieldName: body.fieldName,
-        uploadedBy,
+        visibility: body.visibility,
+        uploadedBy: actor.id,
+        actor,
       });
 
       res.status(201).json({
@@ -54,13 +61,15 @@ export class MediaController {
       }
 
       const { body } = uploadMediaSchema.parse({ body: req.body });
-      const uploadedBy = (req.headers["x-user-id"] as string) || "anonymous";
+      const actor = getAuthUser(req);
 
       const media = await mediaService.uploadMultipleMedia(files, {
-        entityType: body.entityType as EntityType,
+        entityType: body.entityType,
         entityId: body.entityId,
         fieldName: body.fieldName,
-        uploadedBy,
+        visibility: body.visibility,
+        uploadedBy: actor.id,
+        actor,
       });
 
       res.status(201).json({
@@ -87,15 +96,12 @@ export class MediaController {
         limit: query.limit,
         isActive: query.isActive,
         uploadedBy: query.uploadedBy,
+        entityType: query.entityType,
         entityId: query.entityId,
         fieldName: query.fieldName,
+        status: query.status,
       };
 
-      if (query.entityType) {
-        serviceQuery.entityType =
-          query.entityType === "user" ? EntityType.USER : EntityType.PROPERTY;
-      }
-
       if (query.type) {
         serviceQuery.type =
           query.type === "image"
@@ -105,7 +111,10 @@ export class MediaController {
             : MediaType.DOCUMENT;
       }
 
-      const result = await mediaService.getMedia(serviceQuery);
+      const result = await mediaService.getMedia(
+        serviceQuery,
+        getAuthUser(req)
+      );
 
       res.json({
         success: true,
@@ -123,7 +132,7 @@ export class MediaController {
   ): Promise<void> {
     try {
       const { id } = req.params;
-      const media = await mediaService.getMediaById(id);
+      const media = await mediaService.getMediaById(id, getAuthUser(req));
 
       res.json({
         success: true,
@@ -134,6 +143,96 @@ export class MediaController {
     }
   }
 
+  async getMediaStatus(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const status = await mediaService.getMediaStatus(id);
+
+      res.json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async renderMedia(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params, query } = renderMediaSchema.parse({
+        params: req.params,
+        query: req.query,
+      });
+
+      const rendered = await mediaService.renderMedia(
+        params.id,
+        {
+          width: query.w,
+          height: query.h,
+          fit: query.fit,
+          format: query.format,
+          quality: query.q,
+        },
+        req.headers.accept
+      );
+
+      // res.send adds an ETag and answers conditional requests with 304
+      res.type(rendered.mimeType);
+      res.setHeader(
+        "Cache-Control",
+        `public, max-age=${config.render.cacheMaxAge}, immutable`
+      );
+      res.setHeader("Vary", "Accept");
+      res.send(rendered.buffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async downloadOriginal(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const original = await mediaService.getOriginal(id, getAuthUser(req));
+
+      res.type(original.mimeType);
+      res.attachment(original.fileName);
+      res.send(original.buffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async reprocessMedia(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const media = await mediaService.reprocessMedia(id, getAuthUser(req));
+
+      res.status(202).json({
+        success: true,
+        message: "Media queued for reprocessing",
+        data: media,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getMediaByEntity(
     req: Request,
     res: Response,
@@ -146,8 +245,9 @@ export class MediaController {
       });
 
       const media = await mediaService.getMediaByEntity(
-        params.entityType as EntityType,
+        params.entityType,
         params.entityId,
+        getAuthUser(req),
         query.fieldName
       );
 
@@ -171,7 +271,11 @@ export class MediaController {
         body: req.body,
       });
 
-      const media = await mediaService.updateMedia(params.id, body);
+      const media = await mediaService.updateMedia(
+        params.id,
+        body,
+        getAuthUser(req)
+      );
 
       res.json({
         success: true,
@@ -183,6 +287,54 @@ export class MediaController {
     }
   }
 
+  async reorderMedia(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params, body } = reorderMediaSchema.parse({
+        params: req.params,
+        body: req.body,
+      });
+
+      const media = await mediaService.reorderMedia(
+        params.entityType,
+        params.entityId,
+        params.fieldName,
+        body.ids,
+        getAuthUser(req)
+      );
+
+      res.json({
+        success: true,
+        message: "Media reordered successfully",
+        data: media,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setCover(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const media = await mediaService.setCover(id, getAuthUser(req));
+
+      res.json({
+        success: true,
+        message: "Cover updated successfully",
+        data: media,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async deleteMedia(
     req: Request,
     res: Response,
@@ -190,7 +342,7 @@ export class MediaController {
   ): Promise<void> {
     try {
       const { id } = req.params;
-      await mediaService.deleteMedia(id);
+      await mediaService.deleteMedia(id, getAuthUser(req));
 
       res.json({
         success: true,
@@ -208,7 +360,7 @@ export class MediaController {
   ): Promise<void> {
     try {
       const { id } = req.params;
-      await mediaService.deleteMediaPermanently(id);
+      await mediaService.deleteMediaPermanently(id, getAuthUser(req));
 
       res.json({
         success: true,
@@ -227,9 +379,11 @@ export class MediaController {
     try {
       const { body } = bulkDeleteSchema.parse({ body: req.body });
 
+      const actor = getAuthUser(req);
+
       const result = body.permanent
-        ? await mediaService.bulkDeletePermanently(body.ids)
-        : await mediaService.bulkDelete(body.ids);
+        ? await mediaService.bulkDeletePermanently(body.ids, actor)
+        : await mediaService.bulkDelete(body.ids, actor);
 
       res.json({
         success: true,
@@ -247,9 +401,16 @@ export class MediaController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { id } = req.params;
-      const expiresIn = parseInt(req.query.expiresIn as string) || 3600;
-      const url = await mediaService.getSignedUrl(id, expiresIn);
+      const { params, query } = getSignedUrlSchema.parse({
+        params: req.params,
+        query: req.query,
+      });
+      const url = await mediaService.getSignedUrl(
+        params.id,
+        getAuthUser(req),
+        query.expiresIn,
+        query.disposition
+      );
 
       res.json({
         success: true,
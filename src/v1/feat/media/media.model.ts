@@ -1,6 +1,29 @@
 import mongoose, { Schema } from "mongoose";
 import type { IMediaDocument } from "./media.type";
-import { MediaType, EntityType, StorageProvider } from "./media.type";
+import { MediaType, StorageProvider } from "./media.type";
+import { entityTypeRegistry } from "@entity-types/index";
+
+type SerializedMedia = Record<string, unknown>;
+
+// Drop every direct storage URL from a serialized media record
+function omitLocations(media: SerializedMedia): SerializedMedia {
+  const strip = (value: unknown): SerializedMedia | undefined => {
+    if (!value) return undefined;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { url, hlsUrl, ...rest } = value as SerializedMedia;
+    return rest;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { url, ...rest } = media;
+  return {
+    ...rest,
+    thumbnail: strip(media.thumbnail),
+    original: strip(media.original),
+    streaming: strip(media.streaming),
+    variants: (media.variants as unknown[] | undefined)?.map(strip),
+  };
+}
 
 const mediaThumbnailSchema = new Schema(
   {
@@ -11,6 +34,17 @@ const mediaThumbnailSchema = new Schema(
   { _id: false }
 );
 
+const mediaVariantSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    url: { type: String, required: true },
+    key: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
 const mediaDimensionsSchema = new Schema(
   {
     width: { type: Number, required: true },
@@ -31,6 +65,48 @@ const mediaMetadataSchema = new Schema(
   { _id: false }
 );
 
+const mediaOriginalSchema = new Schema(
+  {
+    key: { type: String, required: true },
+    url: { type: String, required: true },
+    mimeType: { type: String, required: true },
+    size: { type: Number, required: true },
+    dimensions: { type: mediaDimensionsSchema },
+    duration: { type: Number },
+    format: { type: String },
+  },
+  { _id: false }
+);
+
+const mediaStreamingRenditionSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    bandwidth: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const mediaStreamingSchema = new Schema(
+  {
+    hlsUrl: { type: String, required: true },
+    hlsPath: { type: String, required: true },
+    renditions: { type: [mediaStreamingRenditionSchema], default: [] },
+  },
+  { _id: false }
+);
+
+const mediaScanSchema = new Schema(
+  {
+    status: { type: String, enum: ["clean", "infected"], required: true },
+    scanner: { type: String, required: true },
+    signature: { type: String },
+    scannedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const mediaSchema = new Schema<IMediaDocument>(
   {
     // File info
@@ -47,6 +123,10 @@ const mediaSchema = new Schema<IMediaDocument>(
       type: mediaThumbnailSchema,
       required: false,
     },
+    variants: {
+      type: [mediaVariantSchema],
+      default: [],
+    },
 
     // File metadata
     type: {
@@ -59,11 +139,19 @@ const mediaSchema = new Schema<IMediaDocument>(
       type: mediaMetadataSchema,
       required: true,
     },
+    original: {
+      type: mediaOriginalSchema,
+      required: false,
+    },
+    streaming: {
+      type: mediaStreamingSchema,
+      required: false,
+    },
 
     // Entity relationship
     entityType: {
       type: String,
-      enum: Object.values(EntityType),
+      enum: entityTypeRegistry.names(),
       required: true,
       index: true,
     },
@@ -77,6 +165,24 @@ const mediaSchema = new Schema<IMediaDocument>(
       required: true,
     },
 
+    // Presentation
+    alt: {
+      type: String,
+      maxlength: 500,
+    },
+    caption: {
+      type: String,
+      maxlength: 2000,
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+    isCover: {
+      type: Boolean,
+      default: false,
+    },
+
     // Tracking
     uploadedBy: {
       type: String,
@@ -92,8 +198,43 @@ const mediaSchema = new Schema<IMediaDocument>(
       type: String,
       required: true,
     },
+    contentHash: {
+      type: String,
+      index: true,
+    },
+
+    // Malware scanning
+    scan: {
+      type: mediaScanSchema,
+      required: false,
+    },
+    isQuarantined: {
+      type: Boolean,
+      default: false,
+      index: true,
+    },
+
+    // Visibility
+    visibility: {
+      type: String,
+      enum: ["public", "private"],
+      default: "public",
+    },
 
     // Status
+    status: {
+      type: String,
+      enum: ["pending", "processing", "ready", "failed"],
+      default: "pending",
+      index: true,
+    },
+    processingError: {
+      type: String,
+    },
+    processingAttempts: {
+      type: Number,
+      default: 0,
+    },
     isProcessed: {
       type: Boolean,
       default: false,
@@ -112,6 +253,16 @@ const mediaSchema = new Schema<IMediaDocument>(
         const transformed = { ...ret, id: ret._id };
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { _id, __v, ...rest } = transformed;
+        if (rest.isQuarantined) {
+          // Never hand out a location for an infected file
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { url, ...safe } = rest;
+          return safe;
+        }
+        if (rest.visibility === "private") {
+          // Private files are reached through signed URLs only
+          return omitLocations(rest);
+        }
         return rest;
       },
     },
@@ -122,13 +273,26 @@ const mediaSchema = new Schema<IMediaDocument>(
 mediaSchema.index({ entityType: 1, entityId: 1, fieldName: 1 });
 mediaSchema.index({ uploadedBy: 1, type: 1, createdAt: -1 });
 mediaSchema.index({ isActive: 1, createdAt: -1 });
+mediaSchema.index({ entityType: 1, entityId: 1, fieldName: 1, order: 1 });
+// One active cover per entity field
+mediaSchema.index(
+  { entityType: 1, entityId: 1, fieldName: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { isCover: true, isActive: true },
+    name: "unique_cover_per_field",
+  }
+);
 
 // Soft delete - exclude inactive documents by default
+// (pass the `includeInactive` query option to opt out)
 mediaSchema.pre("find", function () {
+  if (this.getOptions().includeInactive) return;
   this.where({ isActive: true });
 });
 
 mediaSchema.pre("findOne", function () {
+  if (this.getOptions().includeInactive) return;
   this.where({ isActive: true });
 });
 
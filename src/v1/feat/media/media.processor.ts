@@ -0,0 +1,435 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Media } from "./media.model";
+import { getStorageProvider } from "@providers/index";
+import type { StorageProvider } from "@providers/index";
+import {
+  processImage,
+  getImageMetadata,
+  generateThumbnails,
+  cropToSquare,
+} from "@utils/image.utils";
+import {
+  getVideoMetadata,
+  extractVideoThumbnailBuffer,
+  compressVideo,
+  validateVideoDuration,
+  generateHlsRenditions,
+} from "@utils/video.utils";
+import {
+  getFileExtension,
+  getDerivativePrefix,
+  getOriginalKey,
+  getQuarantineKey,
+  getScannedKey,
+} from "@utils/file.utils";
+import config from "@config/dotenv.config";
+import { withTransaction } from "@config/db";
+import { UnrecoverableJobError } from "@jobs/job.queue";
+import { malwareScanner } from "@scanners/index";
+import { eventOutbox } from "@events/event.outbox";
+import { entityTypeRegistry } from "@entity-types/index";
+import type { ProcessingProfile } from "@entity-types/index";
+import { MediaType } from "./media.type";
+import type {
+  IMediaDocument,
+  MediaScan,
+  MediaThumbnail,
+  MediaStreaming,
+  MediaVariant,
+} from "./media.type";
+
+export const MEDIA_PROCESS_JOB = "media.process";
+
+export interface MediaProcessPayload {
+  mediaId: string;
+}
+
+export class MediaProcessor {
+  async process(mediaId: string): Promise<void> {
+    const media = await Media.findByIdAndUpdate(
+      mediaId,
+      {
+        $set: { status: "processing" },
+        $unset: { processingError: 1 },
+        $inc: { processingAttempts: 1 },
+      },
+      { new: true }
+    );
+    if (!media) {
+      throw new UnrecoverableJobError(`Media ${mediaId} not found`);
+    }
+    if (media.isQuarantined) {
+      throw new UnrecoverableJobError(`Media ${mediaId} is quarantined`);
+    }
+
+    // Files that reached storage directly are scanned before any processing
+    let source: Buffer | undefined;
+    if (!media.scan) {
+      source = await getStorageProvider(media.storageProvider).download(
+        getOriginalKey(media)
+      );
+      if (await this.scanOriginal(media, source)) return;
+    }
+
+    switch (media.type) {
+      case MediaType.IMAGE:
+        await this.processImage(media, source);
+        break;
+      case MediaType.VIDEO:
+        await this.processVideo(media, source);
+        break;
+      default:
+        // Nothing to derive yet; the stored file is served as-is
+        await this.applyResult(media, {
+          status: "ready",
+          isProcessed: false,
+        });
+    }
+  }
+
+  async markFailed(mediaId: string, error: Error): Promise<void> {
+    const media = await Media.findById(mediaId).setOptions({
+      includeInactive: true,
+    });
+    if (!media) return;
+
+    await this.applyResult(media, {
+      status: "failed",
+      processingError: error.message,
+    });
+  }
+
+  /**
+   * Write processing results to the media record and every duplicate
+   * sharing its stored blob, announcing each with media.processed.
+   */
+  private async applyResult(
+    media: IMediaDocument,
+    update: Record<string, unknown>
+  ): Promise<void> {
+    const filter = media.contentHash
+      ? {
+          contentHash: media.contentHash,
+          storageProvider: media.storageProvider,
+        }
+      : { _id: media._id };
+
+    await withTransaction(async (session) => {
+      await Media.updateMany(filter, update, { session });
+      const processed = await Media.find(filter)
+        .session(session ?? null)
+        .setOptions({ includeInactive: true });
+      await eventOutbox.record("media.processed", processed, session);
+    });
+  }
+
+  /**
+   * Scan a stored original, moving it under the quarantine prefix when
+   * infected and out of the unscanned prefix when clean. Returns true when
+   * the media was quarantined.
+   */
+  private async scanOriginal(
+    media: IMediaDocument,
+    source: Buffer
+  ): Promise<boolean> {
+    const result = await malwareScanner.scan(source);
+    const scan: MediaScan = {
+      status: result.infected ? "infected" : "clean",
+      scanner: malwareScanner.name,
+      signature: result.signature,
+      scannedAt: new Date(),
+    };
+
+    const storage = getStorageProvider(media.storageProvider);
+    const originalKey = getOriginalKey(media);
+    const mimeType = media.original?.mimeType || media.metadata.mimeType;
+
+    if (!result.infected) {
+      const update: Record<string, unknown> = { scan };
+      // Clean files leave the unscanned prefix for their regular location
+      const scannedKey = getScannedKey(originalKey);
+      if (scannedKey !== originalKey) {
+        const released = await storage.upload(source, scannedKey, mimeType);
+        Object.assign(update, {
+          url: released.url,
+          storagePath: released.key,
+          ...(media.original && {
+            "original.key": released.key,
+            "original.url": released.url,
+          }),
+        });
+      }
+      await Media.findByIdAndUpdate(media._id, update);
+      media.set(update);
+      if (scannedKey !== originalKey) {
+        await storage.delete(originalKey);
+      }
+      return false;
+    }
+
+    const quarantined = await storage.upload(
+      source,
+      getQuarantineKey(getScannedKey(originalKey)),
+      mimeType
+    );
+    await storage.delete(originalKey);
+
+    await Media.findByIdAndUpdate(media._id, {
+      $set: {
+        url: quarantined.url,
+        storagePath: quarantined.key,
+        scan,
+        isQuarantined: true,
+        status: "failed",
+        processingError: `Malware detected: ${scan.signature || "unknown"}`,
+      },
+      $unset: { original: 1 },
+    });
+    return true;
+  }
+
+  private async processImage(
+    media: IMediaDocument,
+    original?: Buffer
+  ): Promise<void> {
+    const storage = getStorageProvider(media.storageProvider);
+    const originalKey = getOriginalKey(media);
+    const prefix = getDerivativePrefix(originalKey);
+    const stored = original ?? (await storage.download(originalKey));
+    const sourceMeta = await getImageMetadata(stored);
+
+    // Derivatives of cropped fields are cropped too
+    const policy = entityTypeRegistry.getFieldPolicy(
+      media.entityType,
+      media.fieldName
+    );
+    const source =
+      policy?.crop === "square" ? await cropToSquare(stored) : stored;
+
+    // Duplicates share these derivatives; uploads only share content
+    // when their entity types use the same profile
+    const profile = entityTypeRegistry.getProcessingProfile(media.entityType);
+
+    const processed = await processImage(source, {
+      quality: profile.quality,
+      maxWidth: profile.maxWidth,
+      maxHeight: profile.maxHeight,
+    });
+    const imageMeta = await getImageMetadata(processed.buffer);
+
+    const variants = await this.uploadVariants(
+      storage,
+      source,
+      prefix,
+      profile
+    );
+
+    // The optimized derivative is served; the original stays untouched
+    const storagePath = `${prefix}optimized.webp`;
+    const uploadResult = await storage.upload(
+      processed.buffer,
+      storagePath,
+      "image/webp"
+    );
+
+    await this.applyResult(media, {
+      url: uploadResult.url,
+      storagePath: uploadResult.key,
+      variants,
+      thumbnail: this.pickThumbnail(variants),
+      "metadata.mimeType": "image/webp",
+      "metadata.format": "webp",
+      "metadata.size": processed.buffer.length,
+      "metadata.dimensions": {
+        width: imageMeta.width,
+        height: imageMeta.height,
+      },
+      ...(media.original && {
+        "original.dimensions": {
+          width: sourceMeta.width,
+          height: sourceMeta.height,
+        },
+      }),
+      status: "ready",
+      isProcessed: true,
+    });
+  }
+
+  private async processVideo(
+    media: IMediaDocument,
+    original?: Buffer
+  ): Promise<void> {
+    // ffmpeg works on files, so stage the video in a temp directory
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "media-"));
+    try {
+      const storage = getStorageProvider(media.storageProvider);
+      const originalKey = getOriginalKey(media);
+      const prefix = getDerivativePrefix(originalKey);
+      const sourcePath = path.join(
+        workDir,
+        `source${getFileExtension(originalKey)}`
+      );
+      await fs.writeFile(
+        sourcePath,
+        original ?? (await storage.download(originalKey))
+      );
+
+      const sourceMeta = await getVideoMetadata(sourcePath);
+      const profile = entityTypeRegistry.getProcessingProfile(media.entityType);
+      if (!validateVideoDuration(sourceMeta.duration)) {
+        // The original may be shared with duplicates, so it stays in place;
+        // deleting the media releases it
+        throw new UnrecoverableJobError(
+          `Video duration ${Math.round(
+            sourceMeta.duration
+          )}s exceeds maximum of ${config.videoProcessing.maxDuration}s`
+        );
+      }
+
+      // Poster frame, rendered into the same variants as images
+      const poster = await extractVideoThumbnailBuffer(sourcePath);
+      const variants = await this.uploadVariants(
+        storage,
+        poster,
+        prefix,
+        profile
+      );
+
+      // Transcode to the configured format, capped at 720p (even height for x264)
+      const outputFormat = config.videoProcessing.outputFormat;
+      const outputPath = path.join(workDir, `output.${outputFormat}`);
+      const height = sourceMeta.height - (sourceMeta.height % 2);
+      await compressVideo(sourcePath, outputPath, {
+        outputFormat,
+        resolution: `?x${Math.min(720, height)}`,
+      });
+      const outputMeta = await getVideoMetadata(outputPath);
+      const output = await fs.readFile(outputPath);
+
+      const mimeType = `video/${outputFormat}`;
+      const uploadResult = await storage.upload(
+        output,
+        `${prefix}optimized.${outputFormat}`,
+        mimeType
+      );
+
+      let streaming: MediaStreaming | undefined;
+      if (config.videoProcessing.hls.enabled && profile.hls !== false) {
+        streaming = await this.createHlsStreaming(
+          storage,
+          sourcePath,
+          path.join(workDir, "hls"),
+          `${prefix}hls/`,
+          sourceMeta
+        );
+      }
+
+      await this.applyResult(media, {
+        url: uploadResult.url,
+        storagePath: uploadResult.key,
+        variants,
+        thumbnail: this.pickThumbnail(variants),
+        "metadata.mimeType": mimeType,
+        "metadata.size": output.length,
+        "metadata.format": outputFormat,
+        "metadata.duration": outputMeta.duration,
+        "metadata.dimensions": {
+          width: outputMeta.width,
+          height: outputMeta.height,
+        },
+        ...(media.original && {
+          "original.duration": sourceMeta.duration,
+          "original.dimensions": {
+            width: sourceMeta.width,
+            height: sourceMeta.height,
+          },
+        }),
+        streaming,
+        status: "ready",
+        isProcessed: true,
+      });
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async uploadVariants(
+    storage: StorageProvider,
+    source: Buffer,
+    derivativePrefix: string,
+    profile: ProcessingProfile
+  ): Promise<MediaVariant[]> {
+    const prefix = `${derivativePrefix}variants/`;
+    const sizes = config.imageProcessing.variants.filter(
+      (variant) => !profile.variants || profile.variants.includes(variant.name)
+    );
+    const rendered = await generateThumbnails(source, sizes);
+
+    const variants: MediaVariant[] = [];
+    for (const variant of rendered) {
+      const { url, key } = await storage.upload(
+        variant.buffer,
+        `${prefix}${variant.name}.webp`,
+        "image/webp"
+      );
+      variants.push({
+        name: variant.name,
+        url,
+        key,
+        width: variant.width,
+        height: variant.height,
+      });
+    }
+
+    return variants;
+  }
+
+  // Keep the single `thumbnail` field for existing consumers
+  private pickThumbnail(variants: MediaVariant[]): MediaThumbnail | undefined {
+    const thumb = variants.find((v) => v.name === "thumb") || variants[0];
+    return thumb
+      ? { url: thumb.url, width: thumb.width, height: thumb.height }
+      : undefined;
+  }
+
+  private async createHlsStreaming(
+    storage: StorageProvider,
+    sourcePath: string,
+    outputDir: string,
+    hlsPath: string,
+    source: { width: number; height: number }
+  ): Promise<MediaStreaming> {
+    const renditions = await generateHlsRenditions(
+      sourcePath,
+      outputDir,
+      source
+    );
+
+    // Mirror the generated tree under the media's storage prefix
+    let hlsUrl = "";
+    const files = await fs.readdir(outputDir, { recursive: true });
+    for (const file of files) {
+      const filePath = path.join(outputDir, file);
+      if (!(await fs.stat(filePath)).isFile()) continue;
+
+      const key = `${hlsPath}${file.split(path.sep).join("/")}`;
+      const mimeType = file.endsWith(".m3u8")
+        ? "application/vnd.apple.mpegurl"
+        : "video/mp2t";
+      const result = await storage.upload(
+        await fs.readFile(filePath),
+        key,
+        mimeType
+      );
+      if (file === "master.m3u8") {
+        hlsUrl = result.url;
+      }
+    }
+
+    return { hlsUrl, hlsPath, renditions };
+  }
+}
+
+export const mediaProcessor = new MediaProcessor();
@@ -1,42 +1,91 @@
 import { Router } from "express";
 import { mediaController } from "./media.controller";
 import { uploadSingle, uploadMultiple } from "@middlewares/upload.middleware";
+import { authenticate } from "@middlewares/auth.middleware";
 
 const router = Router();
 
 // Upload routes
 router.post(
   "/upload",
+  authenticate,
   uploadSingle,
   mediaController.uploadSingle.bind(mediaController)
 );
 router.post(
   "/upload/multiple",
+  authenticate,
   uploadMultiple,
   mediaController.uploadMultiple.bind(mediaController)
 );
 
 // Query routes
-router.get("/", mediaController.getMedia.bind(mediaController));
-router.get("/:id", mediaController.getMediaById.bind(mediaController));
+router.get("/", authenticate, mediaController.getMedia.bind(mediaController));
+router.get(
+  "/:id",
+  authenticate,
+  mediaController.getMediaById.bind(mediaController)
+);
 router.get(
   "/entity/:entityType/:entityId",
+  authenticate,
   mediaController.getMediaByEntity.bind(mediaController)
 );
+router.get(
+  "/:id/status",
+  authenticate,
+  mediaController.getMediaStatus.bind(mediaController)
+);
+// Public so renders can be embedded directly (e.g. <img src>)
+router.get("/:id/render", mediaController.renderMedia.bind(mediaController));
+router.get(
+  "/:id/original",
+  authenticate,
+  mediaController.downloadOriginal.bind(mediaController)
+);
 router.get(
   "/:id/signed-url",
+  authenticate,
   mediaController.getSignedUrl.bind(mediaController)
 );
 
 // Update routes
-router.patch("/:id", mediaController.updateMedia.bind(mediaController));
+router.patch(
+  "/:id",
+  authenticate,
+  mediaController.updateMedia.bind(mediaController)
+);
+router.put(
+  "/entity/:entityType/:entityId/:fieldName/order",
+  authenticate,
+  mediaController.reorderMedia.bind(mediaController)
+);
+router.post(
+  "/:id/cover",
+  authenticate,
+  mediaController.setCover.bind(mediaController)
+);
+router.post(
+  "/:id/reprocess",
+  authenticate,
+  mediaController.reprocessMedia.bind(mediaController)
+);
 
 // Delete routes
-router.delete("/:id", mediaController.deleteMedia.bind(mediaController));
+router.delete(
+  "/:id",
+  authenticate,
+  mediaController.deleteMedia.bind(mediaController)
+);
 router.delete(
   "/:id/permanent",
+  authenticate,
   mediaController.deleteMediaPermanently.bind(mediaController)
 );
-router.post("/bulk-delete", mediaController.bulkDelete.bind(mediaController));
+router.post(
+  "/bulk-delete",
+  authenticate,
+  mediaController.bulkDelete.bind(mediaController)
+);
 
 export default router;
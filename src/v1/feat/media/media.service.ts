@@ -1,22 +1,74 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import type { ClientSession } from "mongoose";
 import { v4 as uuidv4 } from "uuid";
 import { Media } from "./media.model";
-import { storageProvider } from "@providers/index";
+import { MediaBlob } from "./media-blob.model";
+import { storageProvider, getStorageProvider } from "@providers/index";
 import config from "@config/dotenv.config";
+import { withTransaction } from "@config/db";
 import {
   getMediaTypeFromMime,
   validateFile,
   getFileExtension,
+  getDerivativePrefix,
+  getOriginalKey,
+  getQuarantineKey,
+  getPrivateKey,
 } from "@utils/file.utils";
-import { processImage, getImageMetadata } from "../../../utils/image.utils";
-import { NotFoundError, BadRequestError } from "@middlewares/error.middleware";
+import { transformImage } from "@utils/image.utils";
+import { jobQueue } from "@jobs/job.queue";
+import { malwareScanner } from "@scanners/index";
+import { eventOutbox } from "@events/event.outbox";
+import { entityTypeRegistry } from "@entity-types/index";
+import {
+  assertCanManage,
+  canManage,
+  getManageableConditions,
+} from "@utils/auth.utils";
+import type { AuthUser } from "@utils/auth.utils";
+import { MEDIA_PROCESS_JOB } from "./media.processor";
+import type { MediaProcessPayload } from "./media.processor";
+import {
+  NotFoundError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+} from "@middlewares/error.middleware";
 import { MediaType, EntityType, StorageProvider } from "./media.type";
-import type { IMedia, MediaThumbnail, MediaMetadata } from "./media.type";
+import type {
+  IMedia,
+  IMediaDocument,
+  MediaDimensions,
+  MediaScan,
+  MediaStatus,
+  MediaVisibility,
+  ContentDisposition,
+  UploadedFile,
+  ByteRange,
+  StoredObjectStream,
+} from "./media.type";
 
 export interface UploadMediaOptions {
   entityType: EntityType;
   entityId: string;
   fieldName: string;
   uploadedBy: string;
+  visibility?: MediaVisibility; // Defaults to the configured visibility
+  actor: AuthUser; // Must be allowed to manage media an upload replaces
+}
+
+export interface StoredMediaInput extends UploadMediaOptions {
+  fileName: string;
+  storagePath: string;
+  url: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  dimensions?: MediaDimensions;
+  contentHash?: string;
+  scan?: MediaScan; // Omitted when the file still has to be scanned
+  storageProvider?: StorageProvider; // Defaults to the configured provider
 }
 
 export interface MediaQueryOptions {
@@ -25,14 +77,70 @@ export interface MediaQueryOptions {
   fieldName?: string;
   uploadedBy?: string;
   type?: MediaType;
+  status?: MediaStatus;
   isActive?: boolean;
   page?: number;
   limit?: number;
 }
 
+export type MediaSortField = "createdAt" | "updatedAt" | "size";
+
+export interface MediaCursorQueryOptions
+  extends Omit<MediaQueryOptions, "page"> {
+  cursor?: string; // Opaque position returned as `nextCursor`
+  sortBy?: MediaSortField;
+  sortOrder?: "asc" | "desc";
+}
+
+export interface MediaCursorPage {
+  data: IMedia[];
+  total: number; // Matches across all pages
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+export interface MediaStatusInfo {
+  id: string;
+  status: MediaStatus;
+  processingError?: string;
+  processingAttempts: number;
+  isProcessed: boolean;
+}
+
+export interface RenderOptions {
+  width?: number;
+  height?: number;
+  fit: "cover" | "contain" | "fill" | "inside" | "outside";
+  format: "auto" | "webp" | "avif" | "jpeg" | "png";
+  quality: number;
+}
+
+export interface RenderedMedia {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+export interface DownloadedOriginal {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface MediaStreamOptions {
+  variant?: string; // Variant name, or "original" for the file as uploaded
+  range?: ByteRange;
+}
+
+export interface MediaStream extends StoredObjectStream {
+  mimeType: string;
+  fileName: string;
+}
+
 export interface UpdateMediaOptions {
   isActive?: boolean;
   isProcessed?: boolean;
+  alt?: string;
+  caption?: string;
 }
 
 export class MediaService {
@@ -52,104 +160,647 @@ export class MediaService {
     return `${entityType}/${entityId}/${fieldName}/${fileName}`;
   }
 
-  async uploadMedia(
-    file: Express.Multer.File,
-    options: UploadMediaOptions
-  ): Promise<IMedia> {
-    // Validate file
-    const validation = validateFile(file);
+  /**
+   * Drop this record's reference to its stored files, deleting them only
+   * when no other media shares the same content.
+   */
+  private async releaseStoredFiles(media: IMediaDocument): Promise<void> {
+    if (media.contentHash) {
+      const blob = await MediaBlob.findOneAndUpdate(
+        {
+          contentHash: media.contentHash,
+          storageProvider: media.storageProvider,
+        },
+        { $inc: { refCount: -1 } },
+        { new: true }
+      );
+      if (blob) {
+        if (blob.refCount > 0) return;
+        // A concurrent duplicate upload may have taken a new reference
+        const deleted = await MediaBlob.findOneAndDelete({
+          _id: blob._id,
+          refCount: { $lte: 0 },
+        });
+        if (!deleted) return;
+      }
+    }
+
+    await this.deleteStoredFiles(media);
+  }
+
+  // Remove the original and everything derived from it
+  private async deleteStoredFiles(media: IMediaDocument): Promise<void> {
+    const originalKey = getOriginalKey(media);
+    const keys = [
+      ...new Set([
+        originalKey,
+        media.storagePath,
+        ...(media.variants || []).map((variant) => variant.key),
+      ]),
+    ];
+    if (media.thumbnail?.url && !media.variants?.length) {
+      // Records processed before variants existed
+      keys.push(media.storagePath.replace(/(\.[^.]+)$/, "-thumb.webp"));
+    }
+    const storage = getStorageProvider(media.storageProvider);
+    await storage.deleteMany(keys);
+
+    // Optimized files, variants, HLS segments and cached renders
+    await storage.deletePrefix(getDerivativePrefix(originalKey));
+  }
+
+  private buildQueryFilter(
+    query: Omit<MediaQueryOptions, "page" | "limit">,
+    actor: AuthUser
+  ): Record<string, unknown> {
+    const {
+      entityType,
+      entityId,
+      fieldName,
+      uploadedBy,
+      type,
+      status,
+      isActive = true,
+    } = query;
+
+    const filter: Record<string, unknown> = { isActive };
+    if (entityType) filter.entityType = entityType;
+    if (entityId) filter.entityId = entityId;
+    if (fieldName) filter.fieldName = fieldName;
+    if (uploadedBy) filter.uploadedBy = uploadedBy;
+    if (type) filter.type = type;
+    if (status) filter.status = status;
+    return { ...filter, ...this.buildReadableFilter(actor) };
+  }
+
+  // Media the actor may read: public ones and those they may manage
+  private buildReadableFilter(actor: AuthUser): Record<string, unknown> {
+    const manageable = getManageableConditions(actor);
+    if (!manageable) return {};
+    // Under $and so callers remain free to add their own $or
+    return {
+      $and: [{ $or: [{ visibility: { $ne: "private" } }, ...manageable] }],
+    };
+  }
+
+  // Cursors hold the last item's sort value and id, so pages stay stable
+  // while media are added or removed
+  private encodeCursor(media: IMediaDocument, sortBy: MediaSortField): string {
+    const value =
+      sortBy === "size"
+        ? media.metadata.size
+        : media.get(sortBy)?.toISOString();
+    return Buffer.from(JSON.stringify([value, media._id.toString()])).toString(
+      "base64url"
+    );
+  }
+
+  private decodeCursor(
+    cursor: string,
+    sortBy: MediaSortField
+  ): { value: Date | number; id: string } {
+    try {
+      const [value, id] = JSON.parse(
+        Buffer.from(cursor, "base64url").toString()
+      );
+      if (typeof id !== "string" || !Types.ObjectId.isValid(id)) {
+        throw new Error();
+      }
+      // Sizes are encoded as numbers and dates as ISO strings
+      if (typeof value !== (sortBy === "size" ? "number" : "string")) {
+        throw new Error();
+      }
+      const decoded = sortBy === "size" ? Number(value) : new Date(value);
+      if (Number.isNaN(decoded.valueOf())) throw new Error();
+      return { value: decoded, id };
+    } catch {
+      throw new BadRequestError("Invalid cursor");
+    }
+  }
+
+  // New media is appended after everything already in the entity field
+  private async nextOrder(options: UploadMediaOptions): Promise<number> {
+    const last = await Media.findOne({
+      entityType: options.entityType,
+      entityId: options.entityId,
+      fieldName: options.fieldName,
+    })
+      .sort({ order: -1 })
+      .select("order");
+    return last ? last.order + 1 : 0;
+  }
+
+  // Pick the best format the client accepts when none was requested
+  private negotiateFormat(
+    format: RenderOptions["format"],
+    accept: string
+  ): "webp" | "avif" | "jpeg" | "png" {
+    if (format !== "auto") return format;
+    if (accept.includes("image/avif")) return "avif";
+    if (accept.includes("image/webp")) return "webp";
+    return "jpeg";
+  }
+
+  private resolveVisibility(options: UploadMediaOptions): MediaVisibility {
+    return options.visibility ?? config.mediaVisibility.default;
+  }
+
+  private async assertFieldCapacity(
+    options: UploadMediaOptions,
+    incoming: number
+  ): Promise<void> {
+    const policy = entityTypeRegistry.getFieldPolicy(
+      options.entityType,
+      options.fieldName
+    );
+    if (!policy) return;
+
+    // Single-valued fields replace their media instead of filling up
+    if (policy.maxCount === 1) {
+      if (incoming > 1) {
+        throw new BadRequestError(
+          `${options.entityType}.${options.fieldName} holds a single file`
+        );
+      }
+      await this.findReplaced(options);
+      return;
+    }
+
+    const count = await Media.countDocuments({
+      entityType: options.entityType,
+      entityId: options.entityId,
+      fieldName: options.fieldName,
+      isActive: true,
+    });
+    if (count + incoming > policy.maxCount) {
+      throw new BadRequestError(
+        `${options.entityType}.${options.fieldName} allows at most ${policy.maxCount} media`
+      );
+    }
+  }
+
+  /**
+   * Media a new upload replaces in a single-valued field. Replacing deletes
+   * them, so the uploader must be allowed to manage each one.
+   */
+  private async findReplaced(
+    options: UploadMediaOptions,
+    session?: ClientSession
+  ): Promise<IMediaDocument[]> {
+    const policy = entityTypeRegistry.getFieldPolicy(
+      options.entityType,
+      options.fieldName
+    );
+    if (policy?.maxCount !== 1) return [];
+
+    const previous = await Media.find({
+      entityType: options.entityType,
+      entityId: options.entityId,
+      fieldName: options.fieldName,
+    }).session(session ?? null);
+    if (previous.some((m) => !canManage(options.actor, m))) {
+      throw new ForbiddenError(
+        `You do not have permission to replace the media in ${options.entityType}.${options.fieldName}`
+      );
+    }
+    return previous;
+  }
+
+  /**
+   * Soft-delete what a new upload replaces. Runs in the transaction that
+   * creates the new record.
+   */
+  private async replaceExisting(
+    previous: IMediaDocument[],
+    session?: ClientSession
+  ): Promise<void> {
+    if (previous.length === 0) return;
+
+    const ids = previous.map((m) => m._id);
+    await Media.updateMany(
+      { _id: { $in: ids } },
+      { isActive: false, isCover: false },
+      { session }
+    );
+    const replaced = await Media.find({ _id: { $in: ids } })
+      .session(session ?? null)
+      .setOptions({ includeInactive: true });
+    await eventOutbox.record("media.deleted", replaced, session);
+  }
+
+  /**
+   * Check an upload against its field policy before anything is stored:
+   * known field, allowed media and MIME type, size limit and room left.
+   */
+  async assertUploadAllowed(
+    options: UploadMediaOptions,
+    mimeType: string,
+    size: number
+  ): Promise<void> {
+    const validation = entityTypeRegistry.validateUpload(
+      options.entityType,
+      options.fieldName,
+      mimeType,
+      size
+    );
     if (!validation.valid) {
       throw new BadRequestError(validation.error);
     }
+    await this.assertFieldCapacity(options, 1);
+  }
 
-    const mediaType = getMediaTypeFromMime(file.mimetype);
-    const fileName = this.generateFileName(file.originalname);
+  createStorageLocation(
+    originalName: string,
+    options: UploadMediaOptions
+  ): { fileName: string; storagePath: string } {
+    const fileName = this.generateFileName(originalName);
     const storagePath = this.generateStoragePath(
       options.entityType,
       options.entityId,
       options.fieldName,
       fileName
     );
+    // Providers store everything under the private prefix privately
+    return this.resolveVisibility(options) === "private"
+      ? { fileName, storagePath: getPrivateKey(storagePath) }
+      : { fileName, storagePath };
+  }
+
+  async uploadMedia(
+    file: UploadedFile,
+    options: UploadMediaOptions
+  ): Promise<IMedia> {
+    // Validate file
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      throw new BadRequestError(validation.error);
+    }
+    // Trust the sniffed content type over the client's claim
+    const mimeType = validation.mimeType ?? file.mimetype;
+    await this.assertUploadAllowed(options, mimeType, file.size);
 
-    let uploadBuffer = file.buffer;
-    let thumbnail: MediaThumbnail = { url: "", width: 0, height: 0 };
-    let width: number | undefined;
-    let height: number | undefined;
-    let isProcessed = false;
-
-    // Process images
-    if (mediaType === MediaType.IMAGE) {
-      const processed = await processImage(file.buffer);
-      uploadBuffer = processed.buffer;
-
-      const imageMeta = await getImageMetadata(uploadBuffer);
-      width = imageMeta.width;
-      height = imageMeta.height;
-      isProcessed = true;
-
-      // Generate and upload thumbnail
-      const { createThumbnail } = await import("../../../utils/image.utils");
-      const thumbBuffer = await createThumbnail(file.buffer);
-      const thumbPath = storagePath.replace(/(\.[^.]+)$/, "-thumb.webp");
-      const thumbResult = await storageProvider.upload(
-        thumbBuffer,
-        thumbPath,
-        "image/webp"
+    const scanResult = await malwareScanner.scan(file.buffer);
+    const scan: MediaScan = {
+      status: scanResult.infected ? "infected" : "clean",
+      scanner: malwareScanner.name,
+      signature: scanResult.signature,
+      scannedAt: new Date(),
+    };
+
+    if (scanResult.infected) {
+      return this.createQuarantinedMedia(file, mimeType, scan, options);
+    }
+
+    const { fileName, storagePath } = this.createStorageLocation(
+      file.originalname,
+      options
+    );
+
+    const contentHash = crypto
+      .createHash("sha256")
+      .update(file.buffer)
+      .digest("hex");
+    const provider = config.storageProvider as StorageProvider;
+
+    // Private and cropped files are never shared with other records, nor
+    // is content already processed under another profile
+    const policy = entityTypeRegistry.getFieldPolicy(
+      options.entityType,
+      options.fieldName
+    );
+    if (
+      this.resolveVisibility(options) === "private" ||
+      policy?.crop ||
+      !(await this.canShareContent(contentHash, provider, options))
+    ) {
+      const uploadResult = await storageProvider.upload(
+        file.buffer,
+        storagePath,
+        mimeType
       );
+      return this.createMediaFromStorage({
+        fileName,
+        storagePath: uploadResult.key,
+        url: uploadResult.url,
+        originalName: file.originalname,
+        mimeType,
+        size: file.size,
+        scan,
+        ...options,
+      });
+    }
 
-      // Get thumbnail dimensions
-      if (mediaType === MediaType.IMAGE) {
-        const thumbMeta = await getImageMetadata(thumbBuffer);
-        thumbnail = {
-          url: thumbResult.url,
-          width: thumbMeta.width || 200,
-          height: thumbMeta.height || 200,
-        };
+    // Take a reference on the blob for this content, creating it if new
+    const existingBlob = await MediaBlob.findOneAndUpdate(
+      { contentHash, storageProvider: provider },
+      { $inc: { refCount: 1 }, $setOnInsert: { originalKey: storagePath } },
+      { upsert: true, new: false }
+    );
+
+    if (existingBlob) {
+      const source = await Media.findOne({
+        contentHash,
+        storageProvider: provider,
+      }).setOptions({ includeInactive: true });
+      if (source) {
+        return this.createDuplicateMedia(
+          source,
+          fileName,
+          file.originalname,
+          scan,
+          options
+        );
       }
     }
 
-    // Upload main file
+    // Store the file as received; optimization happens in the background.
+    // A blob without media (e.g. a crashed upload) is simply rewritten.
     const uploadResult = await storageProvider.upload(
-      uploadBuffer,
-      storagePath,
-      file.mimetype
+      file.buffer,
+      existingBlob?.originalKey || storagePath,
+      mimeType
     );
+    if (!existingBlob && uploadResult.key !== storagePath) {
+      await MediaBlob.updateOne(
+        { contentHash, storageProvider: provider },
+        { originalKey: uploadResult.key }
+      );
+    }
 
-    // Build metadata
-    const metadata: MediaMetadata = {
+    return this.createMediaFromStorage({
+      fileName,
+      storagePath: uploadResult.key,
+      url: uploadResult.url,
       originalName: file.originalname,
-      mimeType: file.mimetype,
-      size: uploadBuffer.length,
-      dimensions: width && height ? { width, height } : undefined,
-      format: getFileExtension(file.originalname).replace(".", ""),
-    };
+      mimeType,
+      size: file.size,
+      contentHash,
+      scan,
+      ...options,
+    });
+  }
+
+  /**
+   * Shared content carries derivatives built for one processing profile,
+   * so only uploads with that same profile may reuse it.
+   */
+  private async canShareContent(
+    contentHash: string,
+    provider: StorageProvider,
+    options: UploadMediaOptions
+  ): Promise<boolean> {
+    const existing = await Media.findOne({
+      contentHash,
+      storageProvider: provider,
+    }).setOptions({ includeInactive: true });
+    return (
+      !existing ||
+      entityTypeRegistry.getProcessingProfile(existing.entityType) ===
+        entityTypeRegistry.getProcessingProfile(options.entityType)
+    );
+  }
+
+  /**
+   * Create a media record that reuses the stored files of an identical
+   * upload instead of storing and processing the bytes again.
+   */
+  private async createDuplicateMedia(
+    source: IMediaDocument,
+    fileName: string,
+    originalName: string,
+    scan: MediaScan,
+    options: UploadMediaOptions
+  ): Promise<IMedia> {
+    const order = await this.nextOrder(options);
+    const media = await withTransaction(async (session) => {
+      const replaced = await this.findReplaced(options, session);
+      const [created] = await Media.create(
+        [
+          {
+            ...this.pickSharedFields(source),
+            fileName,
+            metadata: { ...source.toObject().metadata, originalName },
+            scan,
+            entityType: options.entityType,
+            entityId: options.entityId,
+            fieldName: options.fieldName,
+            order,
+            uploadedBy: options.uploadedBy,
+            visibility: this.resolveVisibility(options),
+            storageProvider: source.storageProvider,
+            contentHash: source.contentHash,
+            isActive: true,
+          },
+        ],
+        { session }
+      );
+      await this.replaceExisting(replaced, session);
+      await eventOutbox.record("media.uploaded", created, session);
+      return created;
+    });
+
+    // The source may have finished processing while we were copying it
+    const latest = await Media.findById(source._id).setOptions({
+      includeInactive: true,
+    });
+    if (latest && latest.status !== source.status) {
+      const updated = await withTransaction(async (session) => {
+        const record = await Media.findByIdAndUpdate(
+          media._id,
+          this.pickSharedFields(latest),
+          { new: true, session }
+        );
+        if (record) {
+          await eventOutbox.record("media.processed", record, session);
+        }
+        return record;
+      });
+      if (!updated) {
+        throw new NotFoundError("Media not found");
+      }
+      return updated.toJSON() as unknown as IMedia;
+    }
 
-    // Create media record
+    return media.toJSON() as unknown as IMedia;
+  }
+
+  /**
+   * Store an infected upload under the quarantine prefix and record it so
+   * it can be reviewed and deleted, but never served or processed.
+   */
+  private async createQuarantinedMedia(
+    file: UploadedFile,
+    mimeType: string,
+    scan: MediaScan,
+    options: UploadMediaOptions
+  ): Promise<IMedia> {
+    const { fileName, storagePath } = this.createStorageLocation(
+      file.originalname,
+      options
+    );
+    const uploadResult = await storageProvider.upload(
+      file.buffer,
+      getQuarantineKey(storagePath),
+      mimeType
+    );
+
+    // No media.uploaded event: consumers never get to use quarantined files
     const media = await Media.create({
       fileName,
       url: uploadResult.url,
-      thumbnail,
-      type: mediaType,
-      metadata,
+      type: getMediaTypeFromMime(mimeType),
+      metadata: {
+        originalName: file.originalname,
+        mimeType,
+        size: file.size,
+      },
       entityType: options.entityType,
       entityId: options.entityId,
       fieldName: options.fieldName,
+      order: await this.nextOrder(options),
       uploadedBy: options.uploadedBy,
       storageProvider: config.storageProvider as StorageProvider,
-      storagePath,
-      isProcessed,
+      storagePath: uploadResult.key,
+      visibility: this.resolveVisibility(options),
+      scan,
+      isQuarantined: true,
+      status: "failed",
+      processingError: `Malware detected: ${scan.signature || "unknown"}`,
+      isProcessed: false,
       isActive: true,
     });
 
     return media.toJSON() as unknown as IMedia;
   }
 
+  private assertNotQuarantined(media: IMediaDocument): void {
+    if (media.isQuarantined) {
+      throw new ForbiddenError("Media is quarantined");
+    }
+  }
+
+  // Direct and resumable uploads are scanned by the processing job
+  private assertScanned(media: IMediaDocument): void {
+    if (!media.scan) {
+      throw new ConflictError("Media has not been scanned yet");
+    }
+  }
+
+  // Private media are only readable by those who may manage them
+  private canRead(actor: AuthUser, media: IMediaDocument): boolean {
+    return media.visibility !== "private" || canManage(actor, media);
+  }
+
+  private assertCanRead(actor: AuthUser, media: IMediaDocument): void {
+    if (!this.canRead(actor, media)) {
+      throw new ForbiddenError(
+        "You do not have permission to access this media"
+      );
+    }
+  }
+
+  // Fields that describe the shared blob rather than a single record
+  private pickSharedFields(media: IMediaDocument): Partial<IMedia> {
+    const data = media.toObject() as unknown as IMedia;
+    return {
+      url: data.url,
+      thumbnail: data.thumbnail,
+      variants: data.variants,
+      type: data.type,
+      original: data.original,
+      streaming: data.streaming,
+      storagePath: data.storagePath,
+      status: data.status,
+      processingError: data.processingError,
+      isProcessed: data.isProcessed,
+    };
+  }
+
+  /**
+   * Create a pending media record for an object that is already in storage
+   * and queue it for background processing. The object is kept as the
+   * original; processing writes derivatives next to it.
+   */
+  async createMediaFromStorage(input: StoredMediaInput): Promise<IMedia> {
+    const format = getFileExtension(input.originalName).replace(".", "");
+    const order = await this.nextOrder(input);
+    const media = await withTransaction(async (session) => {
+      const replaced = await this.findReplaced(input, session);
+      const [created] = await Media.create(
+        [
+          {
+            fileName: input.fileName,
+            url: input.url,
+            type: getMediaTypeFromMime(input.mimeType),
+            metadata: {
+              originalName: input.originalName,
+              mimeType: input.mimeType,
+              size: input.size,
+              dimensions: input.dimensions,
+              format,
+            },
+            original: {
+              key: input.storagePath,
+              url: input.url,
+              mimeType: input.mimeType,
+              size: input.size,
+              dimensions: input.dimensions,
+              format,
+            },
+            entityType: input.entityType,
+            entityId: input.entityId,
+            fieldName: input.fieldName,
+            order,
+            uploadedBy: input.uploadedBy,
+            storageProvider:
+              input.storageProvider ??
+              (config.storageProvider as StorageProvider),
+            storagePath: input.storagePath,
+            contentHash: input.contentHash,
+            visibility: this.resolveVisibility(input),
+            scan: input.scan,
+            status: "pending",
+            isProcessed: false,
+            isActive: true,
+          },
+        ],
+        { session }
+      );
+      await this.replaceExisting(replaced, session);
+      await eventOutbox.record("media.uploaded", created, session);
+      return created;
+    });
+
+    await jobQueue.enqueue<MediaProcessPayload>(MEDIA_PROCESS_JOB, {
+      mediaId: media._id.toString(),
+    });
+
+    return media.toJSON() as unknown as IMedia;
+  }
+
   async uploadMultipleMedia(
-    files: Express.Multer.File[],
+    files: UploadedFile[],
     options: UploadMediaOptions
   ): Promise<IMedia[]> {
-    const results: IMedia[] = [];
+    // Make sure the whole batch is acceptable before storing any of it
+    for (const file of files) {
+      const validation = validateFile(file);
+      if (!validation.valid) {
+        throw new BadRequestError(`${file.originalname}: ${validation.error}`);
+      }
+      const allowed = entityTypeRegistry.validateUpload(
+        options.entityType,
+        options.fieldName,
+        validation.mimeType ?? file.mimetype,
+        file.size
+      );
+      if (!allowed.valid) {
+        throw new BadRequestError(`${file.originalname}: ${allowed.error}`);
+      }
+    }
+    await this.assertFieldCapacity(options, files.length);
 
+    const results: IMedia[] = [];
     for (const file of files) {
       const media = await this.uploadMedia(file, options);
       results.push(media);
@@ -158,43 +809,190 @@ export class MediaService {
     return results;
   }
 
-  async getMediaById(id: string): Promise<IMedia> {
+  async getMediaById(id: string, actor: AuthUser): Promise<IMedia> {
     const media = await Media.findById(id);
     if (!media) {
       throw new NotFoundError("Media not found");
     }
+    this.assertCanRead(actor, media);
     return media.toJSON() as unknown as IMedia;
   }
 
-  async getMedia(query: MediaQueryOptions): Promise<{
+  async getMediaStatus(id: string): Promise<MediaStatusInfo> {
+    const media = await Media.findById(id);
+    if (!media) {
+      throw new NotFoundError("Media not found");
+    }
+    return {
+      id: media._id.toString(),
+      status: media.status,
+      processingError: media.processingError,
+      processingAttempts: media.processingAttempts,
+      isProcessed: media.isProcessed,
+    };
+  }
+
+  async renderMedia(
+    id: string,
+    options: RenderOptions,
+    accept: string = ""
+  ): Promise<RenderedMedia> {
+    const media = await Media.findById(id);
+    if (!media) {
+      throw new NotFoundError("Media not found");
+    }
+    this.assertNotQuarantined(media);
+    this.assertScanned(media);
+    // Renders are served without authentication
+    if (media.visibility === "private") {
+      throw new ForbiddenError("Private media can only be fetched signed");
+    }
+    if (media.type !== MediaType.IMAGE) {
+      throw new BadRequestError("Only images can be rendered");
+    }
+
+    const format = this.negotiateFormat(options.format, accept);
+    const mimeType = `image/${format}`;
+
+    // Format is part of the name so providers that drop extensions don't collide
+    const variantName = `w${options.width || 0}_h${options.height || 0}_${
+      options.fit
+    }_q${options.quality}_${format}`;
+    const originalKey = getOriginalKey(media);
+    const cacheKey = `${getDerivativePrefix(
+      originalKey
+    )}renders/${variantName}.${format}`;
+
+    const storage = getStorageProvider(media.storageProvider);
+    if (await storage.exists(cacheKey)) {
+      return { buffer: await storage.download(cacheKey), mimeType };
+    }
+
+    // Derive from the original so repeated renders never compound losses
+    const source = await storage.download(originalKey);
+    const buffer = await transformImage(source, {
+      width: options.width,
+      height: options.height,
+      fit: options.fit,
+      format,
+      quality: options.quality,
+    });
+    await storage.upload(buffer, cacheKey, mimeType);
+
+    return { buffer, mimeType };
+  }
+
+  async getOriginal(id: string, actor: AuthUser): Promise<DownloadedOriginal> {
+    const media = await Media.findById(id);
+    if (!media) {
+      throw new NotFoundError("Media not found");
+    }
+    this.assertNotQuarantined(media);
+    this.assertScanned(media);
+    this.assertCanRead(actor, media);
+
+    const buffer = await getStorageProvider(media.storageProvider).download(
+      getOriginalKey(media)
+    );
+    return {
+      buffer,
+      mimeType: media.original?.mimeType || media.metadata.mimeType,
+      fileName: media.metadata.originalName,
+    };
+  }
+
+  /**
+   * Stream the served file, the original or a named variant of a media.
+   */
+  async getMediaStream(
+    id: string,
+    actor: AuthUser,
+    options: MediaStreamOptions = {}
+  ): Promise<MediaStream> {
+    const media = await Media.findById(id);
+    if (!media) {
+      throw new NotFoundError("Media not found");
+    }
+    this.assertNotQuarantined(media);
+    this.assertScanned(media);
+    this.assertCanRead(actor, media);
+
+    let key = media.storagePath;
+    let mimeType = media.metadata.mimeType;
+    let fileName = media.metadata.originalName;
+
+    if (options.variant === "original") {
+      key = getOriginalKey(media);
+      mimeType = media.original?.mimeType || mimeType;
+    } else if (options.variant) {
+      const variant = media.variants.find((v) => v.name === options.variant);
+      if (!variant) {
+        throw new NotFoundError(`Variant '${options.variant}' not found`);
+      }
+      key = variant.key;
+      mimeType = "image/webp";
+      fileName = `${fileName.replace(/\.[^.]+$/, "")}-${variant.name}.webp`;
+    }
+
+    const stored = await getStorageProvider(media.storageProvider).getStream(
+      key,
+      options.range
+    );
+    return { ...stored, mimeType, fileName };
+  }
+
+  /**
+   * Throw away derivatives and regenerate them from the original.
+   */
+  async reprocessMedia(id: string, actor: AuthUser): Promise<IMedia> {
+    const media = await Media.findById(id);
+    if (!media) {
+      throw new NotFoundError("Media not found");
+    }
+    assertCanManage(actor, media);
+    this.assertNotQuarantined(media);
+    if (!media.original) {
+      throw new BadRequestError("Original file is not available");
+    }
+
+    const updated = await Media.findByIdAndUpdate(
+      id,
+      { status: "pending", $unset: { processingError: 1 } },
+      { new: true }
+    );
+    if (!updated) {
+      throw new NotFoundError("Media not found");
+    }
+
+    await jobQueue.enqueue<MediaProcessPayload>(MEDIA_PROCESS_JOB, {
+      mediaId: media._id.toString(),
+    });
+
+    return updated.toJSON() as unknown as IMedia;
+  }
+
+  async getMedia(
+    query: MediaQueryOptions,
+    actor: AuthUser
+  ): Promise<{
     data: IMedia[];
     total: number;
     page: number;
     limit: number;
     totalPages: number;
   }> {
-    const {
-      entityType,
-      entityId,
-      fieldName,
-      uploadedBy,
-      type,
-      isActive = true,
-      page = 1,
-      limit = 20,
-    } = query;
-
-    const filter: Record<string, unknown> = { isActive };
-    if (entityType) filter.entityType = entityType;
-    if (entityId) filter.entityId = entityId;
-    if (fieldName) filter.fieldName = fieldName;
-    if (uploadedBy) filter.uploadedBy = uploadedBy;
-    if (type) filter.type = type;
+    const { page = 1, limit = 20 } = query;
+    const filter = this.buildQueryFilter(query, actor);
 
     const skip = (page - 1) * limit;
 
+    // The filter sets isActive itself, so inactive media can be listed
     const [data, total] = await Promise.all([
-      Media.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Media.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .setOptions({ includeInactive: true }),
       Media.countDocuments(filter),
     ]);
 
@@ -207,28 +1005,238 @@ export class MediaService {
     };
   }
 
+  /**
+   * Cursor-paginated variant of `getMedia` for service-to-service callers.
+   */
+  async queryMedia(
+    query: MediaCursorQueryOptions,
+    actor: AuthUser
+  ): Promise<MediaCursorPage> {
+    const { cursor, sortBy = "createdAt", sortOrder = "desc" } = query;
+    const limit = query.limit || 20;
+    const filter = this.buildQueryFilter(query, actor);
+    const field = sortBy === "size" ? "metadata.size" : sortBy;
+    const direction = sortOrder === "asc" ? 1 : -1;
+
+    const pageFilter = { ...filter };
+    if (cursor) {
+      const { value, id } = this.decodeCursor(cursor, sortBy);
+      const op = direction === 1 ? "$gt" : "$lt";
+      pageFilter.$or = [
+        { [field]: { [op]: value } },
+        { [field]: value, _id: { [op]: new Types.ObjectId(id) } },
+      ];
+    }
+
+    // Fetch one extra item to learn whether another page exists
+    const [items, total] = await Promise.all([
+      // The filter sets isActive itself, so inactive media can be listed
+      Media.find(pageFilter)
+        .sort({ [field]: direction, _id: direction })
+        .limit(limit + 1)
+        .setOptions({ includeInactive: true }),
+      Media.countDocuments(filter),
+    ]);
+
+    const hasMore = items.length > limit;
+    const data = items.slice(0, limit);
+    const last = data[data.length - 1];
+
+    return {
+      data: data.map((d) => d.toJSON() as unknown as IMedia),
+      total,
+      nextCursor: hasMore && last ? this.encodeCursor(last, sortBy) : undefined,
+      hasMore,
+    };
+  }
+
+  /**
+   * Fetch many media by id in one query, preserving the requested order.
+   * Media the actor may not read are reported as missing.
+   */
+  async getMediaByIds(
+    ids: string[],
+    actor: AuthUser
+  ): Promise<{ data: IMedia[]; missingIds: string[] }> {
+    const validIds = ids.filter((id) => Types.ObjectId.isValid(id));
+    const media = (await Media.find({ _id: { $in: validIds } })).filter((m) =>
+      this.canRead(actor, m)
+    );
+    const byId = new Map(media.map((m) => [m._id.toString(), m]));
+
+    const data: IMedia[] = [];
+    const missingIds: string[] = [];
+    for (const id of ids) {
+      const item = byId.get(id);
+      if (item) {
+        data.push(item.toJSON() as unknown as IMedia);
+      } else {
+        missingIds.push(id);
+      }
+    }
+
+    return { data, missingIds };
+  }
+
   async getMediaByEntity(
     entityType: EntityType,
     entityId: string,
+    actor: AuthUser,
     fieldName?: string
   ): Promise<IMedia[]> {
     const filter: Record<string, unknown> = {
       entityType,
       entityId,
       isActive: true,
+      ...this.buildReadableFilter(actor),
     };
     if (fieldName) filter.fieldName = fieldName;
 
-    const media = await Media.find(filter).sort({ createdAt: -1 });
+    const media = await Media.find(filter).sort({ order: 1, createdAt: -1 });
     return media.map((m) => m.toJSON() as unknown as IMedia);
   }
 
-  async updateMedia(id: string, data: UpdateMediaOptions): Promise<IMedia> {
-    const media = await Media.findByIdAndUpdate(
-      id,
-      { $set: data },
-      { new: true, runValidators: true }
-    );
+  /**
+   * Set the display order of an entity field. `ids` must list every active
+   * media in the field exactly once, in the new order.
+   */
+  async reorderMedia(
+    entityType: EntityType,
+    entityId: string,
+    fieldName: string,
+    ids: string[],
+    actor: AuthUser
+  ): Promise<IMedia[]> {
+    const media = await Media.find({
+      entityType,
+      entityId,
+      fieldName,
+      isActive: true,
+    });
+
+    const current = new Set(media.map((m) => m._id.toString()));
+    const requested = new Set(ids);
+    if (
+      requested.size !== ids.length ||
+      requested.size !== current.size ||
+      ids.some((id) => !current.has(id))
+    ) {
+      throw new BadRequestError(
+        "Order must list every media in the field exactly once"
+      );
+    }
+    for (const item of media) {
+      assertCanManage(actor, item);
+    }
+
+    const currentOrder = new Map(media.map((m) => [m._id.toString(), m.order]));
+    const moved = ids.filter((id, order) => currentOrder.get(id) !== order);
+    if (moved.length > 0) {
+      await withTransaction(async (session) => {
+        await Media.bulkWrite(
+          ids.map((id, order) => ({
+            updateOne: { filter: { _id: id }, update: { $set: { order } } },
+          })),
+          { session }
+        );
+        const updated = await Media.find({ _id: { $in: moved } }).session(
+          session ?? null
+        );
+        await eventOutbox.record("media.updated", updated, session);
+      });
+    }
+
+    return this.getMediaByEntity(entityType, entityId, actor, fieldName);
+  }
+
+  /**
+   * Make an image the cover of its entity field, replacing any previous
+   * cover. A unique index keeps a single active cover per field.
+   */
+  async setCover(id: string, actor: AuthUser): Promise<IMedia> {
+    const media = await Media.findById(id);
+    if (!media) {
+      throw new NotFoundError("Media not found");
+    }
+    assertCanManage(actor, media);
+    if (media.type !== MediaType.IMAGE) {
+      throw new BadRequestError("Only images can be used as a cover");
+    }
+    if (media.isCover) {
+      return media.toJSON() as unknown as IMedia;
+    }
+
+    const previous = await Media.find({
+      entityType: media.entityType,
+      entityId: media.entityId,
+      fieldName: media.fieldName,
+      isCover: true,
+      _id: { $ne: media._id },
+    });
+    const changedIds = [...previous.map((m) => m._id), media._id];
+
+    await withTransaction(async (session) => {
+      await Media.updateMany(
+        { _id: { $in: previous.map((m) => m._id) } },
+        { $set: { isCover: false } },
+        { session }
+      );
+      await Media.updateOne(
+        { _id: media._id },
+        { $set: { isCover: true } },
+        { session }
+      );
+      const updated = await Media.find({ _id: { $in: changedIds } }).session(
+        session ?? null
+      );
+      await eventOutbox.record("media.updated", updated, session);
+    });
+
+    return this.getMediaById(id, actor);
+  }
+
+  async updateMedia(
+    id: string,
+    data: UpdateMediaOptions,
+    actor: AuthUser
+  ): Promise<IMedia> {
+    // Restoring a soft-deleted record needs to find it first
+    const existing = await Media.findById(id).setOptions({
+      includeInactive: true,
+    });
+    if (!existing) {
+      throw new NotFoundError("Media not found");
+    }
+    assertCanManage(actor, existing);
+
+    // A restored record counts against its field like a new upload
+    const restoring = data.isActive === true && !existing.isActive;
+    const fieldOptions: UploadMediaOptions = {
+      entityType: existing.entityType,
+      entityId: existing.entityId,
+      fieldName: existing.fieldName,
+      uploadedBy: existing.uploadedBy,
+      actor,
+    };
+    if (restoring) {
+      await this.assertFieldCapacity(fieldOptions, 1);
+    }
+
+    const media = await withTransaction(async (session) => {
+      const replaced = restoring
+        ? await this.findReplaced(fieldOptions, session)
+        : [];
+      await this.replaceExisting(replaced, session);
+      const updated = await Media.findByIdAndUpdate(
+        id,
+        { $set: data },
+        { new: true, runValidators: true, session }
+      ).setOptions({ includeInactive: true });
+      if (updated) {
+        await eventOutbox.record("media.updated", updated, session);
+      }
+      return updated;
+    });
 
     if (!media) {
       throw new NotFoundError("Media not found");
@@ -237,43 +1245,68 @@ export class MediaService {
     return media.toJSON() as unknown as IMedia;
   }
 
-  async deleteMedia(id: string): Promise<void> {
+  async deleteMedia(id: string, actor: AuthUser): Promise<void> {
     const media = await Media.findById(id);
     if (!media) {
       throw new NotFoundError("Media not found");
     }
+    assertCanManage(actor, media);
 
-    // Soft delete
-    await Media.findByIdAndUpdate(id, { isActive: false });
+    // Soft delete; the field can pick a new cover meanwhile
+    await withTransaction(async (session) => {
+      const deleted = await Media.findByIdAndUpdate(
+        id,
+        { isActive: false, isCover: false },
+        { new: true, session }
+      ).setOptions({ includeInactive: true });
+      if (deleted) {
+        await eventOutbox.record("media.deleted", deleted, session);
+      }
+    });
   }
 
-  async deleteMediaPermanently(id: string): Promise<void> {
-    const media = await Media.findById(id).setOptions({ strictQuery: false });
+  async deleteMediaPermanently(id: string, actor: AuthUser): Promise<void> {
+    const media = await Media.findById(id).setOptions({
+      includeInactive: true,
+    });
     if (!media) {
       throw new NotFoundError("Media not found");
     }
+    assertCanManage(actor, media);
 
-    // Delete from storage
-    await storageProvider.delete(media.storagePath);
-    if (media.thumbnail?.url) {
-      const thumbPath = media.storagePath.replace(/(\.[^.]+)$/, "-thumb.webp");
-      await storageProvider.delete(thumbPath);
-    }
+    await this.releaseStoredFiles(media);
 
     // Hard delete
-    await Media.findByIdAndDelete(id);
+    await withTransaction(async (session) => {
+      await Media.findByIdAndDelete(id, { session });
+      await eventOutbox.record("media.purged", media, session);
+    });
   }
 
   async bulkDelete(
-    ids: string[]
+    ids: string[],
+    actor: AuthUser
   ): Promise<{ deleted: number; failed: string[] }> {
-    const media = await Media.find({ _id: { $in: ids } });
+    // Media the caller may not manage are reported as failed
+    const media = (await Media.find({ _id: { $in: ids } })).filter((m) =>
+      canManage(actor, m)
+    );
     const foundIds = media.map((m) => m._id.toString());
     const failedIds = ids.filter((id) => !foundIds.includes(id));
 
     if (foundIds.length > 0) {
       // Soft delete
-      await Media.updateMany({ _id: { $in: foundIds } }, { isActive: false });
+      await withTransaction(async (session) => {
+        await Media.updateMany(
+          { _id: { $in: foundIds } },
+          { isActive: false, isCover: false },
+          { session }
+        );
+        const deleted = await Media.find({ _id: { $in: foundIds } })
+          .session(session ?? null)
+          .setOptions({ includeInactive: true });
+        await eventOutbox.record("media.deleted", deleted, session);
+      });
     }
 
     return {
@@ -283,18 +1316,25 @@ export class MediaService {
   }
 
   async bulkDeletePermanently(
-    ids: string[]
+    ids: string[],
+    actor: AuthUser
   ): Promise<{ deleted: number; failed: string[] }> {
-    const media = await Media.find({ _id: { $in: ids } }).setOptions({
-      strictQuery: false,
-    });
-    const paths = media.map((m) => m.storagePath);
+    const media = (
+      await Media.find({ _id: { $in: ids } }).setOptions({
+        includeInactive: true,
+      })
+    ).filter((m) => canManage(actor, m));
     const foundIds = media.map((m) => m._id.toString());
     const failedIds = ids.filter((id) => !foundIds.includes(id));
 
-    if (paths.length > 0) {
-      await storageProvider.deleteMany(paths);
-      await Media.deleteMany({ _id: { $in: foundIds } });
+    if (foundIds.length > 0) {
+      for (const item of media) {
+        await this.releaseStoredFiles(item);
+      }
+      await withTransaction(async (session) => {
+        await Media.deleteMany({ _id: { $in: foundIds } }, { session });
+        await eventOutbox.record("media.purged", media, session);
+      });
     }
 
     return {
@@ -303,13 +1343,34 @@ export class MediaService {
     };
   }
 
-  async getSignedUrl(id: string, expiresIn: number = 3600): Promise<string> {
+  async getSignedUrl(
+    id: string,
+    actor: AuthUser,
+    expiresIn: number = 3600,
+    disposition?: ContentDisposition
+  ): Promise<string> {
     const media = await Media.findById(id);
     if (!media) {
       throw new NotFoundError("Media not found");
     }
+    this.assertNotQuarantined(media);
+    this.assertScanned(media);
+    this.assertCanRead(actor, media);
+
+    const storage = getStorageProvider(media.storageProvider);
+    return storage.getSignedUrl(media.storagePath, expiresIn, {
+      disposition,
+      fileName: this.getDownloadName(media),
+    });
+  }
 
-    return storageProvider.getSignedUrl(media.storagePath, expiresIn);
+  // The uploaded name, with the extension of the file actually served
+  private getDownloadName(media: IMediaDocument): string {
+    const { originalName } = media.metadata;
+    const ext = getFileExtension(media.storagePath);
+    if (!ext) return originalName;
+    const base = originalName.replace(/\.[^.]+$/, "");
+    return `${base}${ext}`;
   }
 }
 
@@ -1,4 +1,5 @@
 import type { Document } from "mongoose";
+import type { Readable } from "stream";
 
 export type MediaStatus = "pending" | "processing" | "ready" | "failed";
 
@@ -8,11 +9,10 @@ export enum MediaType {
   DOCUMENT = "document",
 }
 
-export enum EntityType {
-  USER = "user",
-  PROPERTY = "property",
-  // Add more as needed
-}
+// Names registered in the entity type registry (see src/entity-types)
+export type EntityType = string;
+
+export type MediaVisibility = "public" | "private";
 
 export enum StorageProvider {
   S3 = "s3",
@@ -31,6 +31,44 @@ export interface MediaThumbnail {
   height: number;
 }
 
+export interface MediaStreamingRendition {
+  name: string; // e.g. "720p"
+  width: number;
+  height: number;
+  bandwidth: number;
+}
+
+export interface MediaStreaming {
+  hlsUrl: string; // Master playlist URL
+  hlsPath: string; // Storage prefix holding every playlist and segment
+  renditions: MediaStreamingRendition[];
+}
+
+export interface MediaVariant {
+  name: string; // e.g. "thumb", "card", "gallery", "hero"
+  url: string;
+  key: string; // Storage key (for deletion)
+  width: number;
+  height: number;
+}
+
+export interface MediaOriginal {
+  key: string; // Storage key of the file exactly as uploaded
+  url: string;
+  mimeType: string;
+  size: number;
+  dimensions?: MediaDimensions;
+  duration?: number; // For videos
+  format?: string;
+}
+
+export interface MediaScan {
+  status: "clean" | "infected";
+  scanner: string; // Scanner that produced the verdict
+  signature?: string; // Detected threat, when infected
+  scannedAt: Date;
+}
+
 export interface MediaMetadata {
   originalName: string;
   mimeType: string;
@@ -42,21 +80,42 @@ export interface MediaMetadata {
 
 export interface IMedia {
   _id?: string;
+  id?: string; // Serialized form of _id (see toJSON transform)
   fileName: string; // Generated unique filename
   url: string;
   thumbnail?: MediaThumbnail;
+  variants: MediaVariant[]; // Responsive image renditions
   type: MediaType;
-  metadata: MediaMetadata;
+  metadata: MediaMetadata; // Describes the served (processed) file
+  original?: MediaOriginal;
+  streaming?: MediaStreaming; // HLS renditions for videos
 
   entityType: EntityType; // Which service owns this
   entityId: string; // ID of the owner document
   fieldName: string; // Which field it belongs to (e.g., "profileImage", "images", "videos")
 
+  // Presentation within the entity field
+  alt?: string;
+  caption?: string;
+  order: number; // Position within the entity field, ascending
+  isCover: boolean; // At most one active cover per entity field
+
   uploadedBy: string;
   storageProvider: StorageProvider;
   storagePath: string; // Path/key in storage (for deletion)
+  contentHash?: string; // SHA-256 of the original, shared by duplicates
+
+  // Malware scanning
+  scan?: MediaScan;
+  isQuarantined: boolean; // Infected files are moved aside and never served
+
+  // Private media are stored under a private prefix and only served signed
+  visibility: MediaVisibility;
 
   // Status
+  status: MediaStatus;
+  processingError?: string; // Reason for the last failure
+  processingAttempts: number;
   isProcessed: boolean; // Has it been optimized/transcoded?
   isActive: boolean;
 
@@ -65,7 +124,13 @@ export interface IMedia {
   updatedAt?: Date;
 }
 
-export interface IMediaDocument extends Omit<IMedia, "_id">, Document {}
+export interface IMediaDocument extends Omit<IMedia, "_id" | "id">, Document {}
+
+// What uploads need from a file; Multer files and gRPC streams both provide it
+export type UploadedFile = Pick<
+  Express.Multer.File,
+  "originalname" | "mimetype" | "size" | "buffer"
+>;
 
 export interface CreateMediaInput {
   propertyId?: string;
@@ -102,6 +167,42 @@ export interface UploadResult {
   thumbnails?: MediaThumbnail[];
 }
 
+export interface PresignedUpload {
+  url: string;
+  method: "PUT" | "POST";
+  fields?: Record<string, string>; // Form fields for POST targets
+  headers?: Record<string, string>; // Required headers for PUT targets
+  key: string; // Key the object will be stored under
+  publicUrl: string;
+  expiresAt: Date;
+}
+
+export type ContentDisposition = "inline" | "attachment";
+
+// Response overrides baked into a signed download URL
+export interface SignedUrlOptions {
+  disposition?: ContentDisposition;
+  fileName?: string; // Name offered to the browser
+}
+
+export interface ByteRange {
+  start: number;
+  end?: number; // Inclusive; defaults to the end of the object
+}
+
+export interface StoredObjectStream {
+  stream: Readable;
+  size: number; // Size of the whole object
+  start: number;
+  end: number; // Inclusive
+}
+
+export interface MultipartUploadPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
 export interface ProcessedFile {
   buffer: Buffer;
   metadata: {
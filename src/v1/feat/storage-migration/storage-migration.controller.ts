@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from "express";
+import { storageMigrationService } from "./storage-migration.service";
+import {
+  createStorageMigrationSchema,
+  storageMigrationParamsSchema,
+} from "@validations/storage-migration.validation";
+import { getAuthUser } from "@middlewares/auth.middleware";
+import { StorageProvider } from "@media/media.type";
+
+export class StorageMigrationController {
+  async createMigration(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { body } = createStorageMigrationSchema.parse({ body: req.body });
+
+      const created = await storageMigrationService.createMigration({
+        from: body.from as StorageProvider,
+        to: body.to as StorageProvider,
+        dryRun: body.dryRun,
+        batchSize: body.batchSize,
+        startedBy: getAuthUser(req).id,
+      });
+      const migration = await storageMigrationService.startMigration(
+        String(created.id)
+      );
+
+      res.status(202).json({
+        success: true,
+        message: body.dryRun
+          ? "Storage migration dry run started"
+          : "Storage migration started",
+        data: migration,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getMigration(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = storageMigrationParamsSchema.parse({
+        params: req.params,
+      });
+      const migration = await storageMigrationService.getMigration(params.id);
+
+      res.json({
+        success: true,
+        data: migration,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resumeMigration(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = storageMigrationParamsSchema.parse({
+        params: req.params,
+      });
+      const migration = await storageMigrationService.startMigration(params.id);
+
+      res.status(202).json({
+        success: true,
+        message: "Storage migration resumed",
+        data: migration,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const storageMigrationController = new StorageMigrationController();
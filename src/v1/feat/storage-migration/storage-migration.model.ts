@@ -0,0 +1,98 @@
+import mongoose, { Schema } from "mongoose";
+import type { IStorageMigrationDocument } from "./storage-migration.type";
+import { StorageProvider } from "@media/media.type";
+
+const migrationStatsSchema = new Schema(
+  {
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    migrated: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    objectsCopied: { type: Number, default: 0 },
+    bytesCopied: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const migrationFailureSchema = new Schema(
+  {
+    mediaId: { type: String, required: true },
+    error: { type: String, required: true },
+    failedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const storageMigrationSchema = new Schema<IStorageMigrationDocument>(
+  {
+    // Providers
+    from: {
+      type: String,
+      enum: Object.values(StorageProvider),
+      required: true,
+    },
+    to: {
+      type: String,
+      enum: Object.values(StorageProvider),
+      required: true,
+    },
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    batchSize: {
+      type: Number,
+      required: true,
+    },
+
+    // Progress
+    status: {
+      type: String,
+      enum: ["pending", "running", "completed", "failed"],
+      default: "pending",
+      index: true,
+    },
+    cursor: {
+      type: String,
+    },
+    stats: {
+      type: migrationStatsSchema,
+      default: {},
+    },
+    failures: {
+      type: [migrationFailureSchema],
+      default: [],
+    },
+    error: {
+      type: String,
+    },
+
+    startedBy: {
+      type: String,
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret): Record<string, unknown> => {
+        const transformed = { ...ret, id: ret._id };
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { _id, __v, ...rest } = transformed;
+        return rest;
+      },
+    },
+  }
+);
+
+export const StorageMigration = mongoose.model<IStorageMigrationDocument>(
+  "StorageMigration",
+  storageMigrationSchema
+);
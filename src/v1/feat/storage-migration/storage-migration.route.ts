@@ -0,0 +1,22 @@
+import { Router } from "express";
+import { authenticate, requireAdmin } from "@middlewares/auth.middleware";
+import { storageMigrationController } from "./storage-migration.controller";
+
+const router = Router();
+
+router.use(authenticate, requireAdmin);
+
+router.post(
+  "/",
+  storageMigrationController.createMigration.bind(storageMigrationController)
+);
+router.get(
+  "/:id",
+  storageMigrationController.getMigration.bind(storageMigrationController)
+);
+router.post(
+  "/:id/resume",
+  storageMigrationController.resumeMigration.bind(storageMigrationController)
+);
+
+export default router;
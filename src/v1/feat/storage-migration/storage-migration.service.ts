@@ -0,0 +1,417 @@
+import { StorageMigration } from "./storage-migration.model";
+import { Media } from "@media/media.model";
+import { MediaBlob } from "@media/media-blob.model";
+import { getStorageProvider } from "@providers/index";
+import type { StorageProvider as StorageBackend } from "@providers/index";
+import { jobQueue } from "@jobs/job.queue";
+import { getFileExtension, getOriginalKey } from "@utils/file.utils";
+import {
+  NotFoundError,
+  BadRequestError,
+  ConflictError,
+} from "@middlewares/error.middleware";
+import type {
+  IMedia,
+  IMediaDocument,
+  StorageProvider,
+} from "@media/media.type";
+import type {
+  IStorageMigration,
+  IStorageMigrationDocument,
+} from "./storage-migration.type";
+
+export const STORAGE_MIGRATION_JOB = "storage.migrate";
+
+export interface StorageMigrationPayload {
+  migrationId: string;
+}
+
+export interface CreateStorageMigrationOptions {
+  from: StorageProvider;
+  to: StorageProvider;
+  dryRun: boolean;
+  batchSize: number;
+  startedBy: string;
+}
+
+// Keep the failure log bounded; the count in stats is exact
+const MAX_RECORDED_FAILURES = 100;
+
+interface StoredObject {
+  key: string;
+  mimeType: string;
+}
+
+interface CopiedObject {
+  key: string;
+  url: string;
+}
+
+interface MediaMigrationResult {
+  records: number; // Media rewritten, including duplicates sharing the files
+  objects: number;
+  bytes: number;
+}
+
+export class StorageMigrationService {
+  private async findMigration(id: string): Promise<IStorageMigrationDocument> {
+    const migration = await StorageMigration.findById(id);
+    if (!migration) {
+      throw new NotFoundError("Storage migration not found");
+    }
+    return migration;
+  }
+
+  async createMigration(
+    options: CreateStorageMigrationOptions
+  ): Promise<IStorageMigration> {
+    if (options.from === options.to) {
+      throw new BadRequestError("Source and target providers must differ");
+    }
+
+    const active = await StorageMigration.findOne({
+      from: options.from,
+      status: { $in: ["pending", "running"] },
+      dryRun: false,
+    });
+    if (active && !options.dryRun) {
+      throw new ConflictError(
+        `Migration ${active._id} is already moving media off ${options.from}`
+      );
+    }
+
+    const migration = await StorageMigration.create({
+      ...options,
+      status: "pending",
+      stats: {
+        total: await Media.countDocuments({ storageProvider: options.from }),
+      },
+    });
+
+    return migration.toJSON() as unknown as IStorageMigration;
+  }
+
+  async getMigration(id: string): Promise<IStorageMigration> {
+    const migration = await this.findMigration(id);
+    return migration.toJSON() as unknown as IStorageMigration;
+  }
+
+  /**
+   * Mark a migration as running and, unless the caller drives the batches
+   * itself (the CLI does), queue its next batch. Also used to resume a
+   * failed or interrupted migration from its cursor.
+   */
+  async startMigration(
+    id: string,
+    options: { enqueue?: boolean } = {}
+  ): Promise<IStorageMigration> {
+    const existing = await this.findMigration(id);
+    if (existing.status === "completed") {
+      throw new ConflictError("Storage migration is already completed");
+    }
+
+    const migration = await StorageMigration.findByIdAndUpdate(
+      id,
+      {
+        $set: {
+          status: "running",
+          startedAt: existing.startedAt ?? new Date(),
+        },
+        $unset: { error: 1 },
+      },
+      { new: true }
+    );
+    if (!migration) {
+      throw new NotFoundError("Storage migration not found");
+    }
+
+    if (options.enqueue ?? true) {
+      await jobQueue.enqueue<StorageMigrationPayload>(STORAGE_MIGRATION_JOB, {
+        migrationId: id,
+      });
+    }
+
+    return migration.toJSON() as unknown as IStorageMigration;
+  }
+
+  // Job handler: run one batch and queue the next while media remain
+  async runQueuedBatch(id: string): Promise<void> {
+    if (await this.runBatch(id)) {
+      await jobQueue.enqueue<StorageMigrationPayload>(STORAGE_MIGRATION_JOB, {
+        migrationId: id,
+      });
+    }
+  }
+
+  async markFailed(id: string, error: Error): Promise<void> {
+    await StorageMigration.findByIdAndUpdate(id, {
+      status: "failed",
+      error: error.message,
+    });
+  }
+
+  /**
+   * Migrate the next batch of media after the cursor. Progress is saved
+   * after every record, so an interrupted batch resumes where it stopped.
+   * Returns true while more media may remain.
+   */
+  async runBatch(id: string): Promise<boolean> {
+    const migration = await this.findMigration(id);
+    if (migration.status !== "running") return false;
+
+    const filter: Record<string, unknown> = {
+      storageProvider: migration.from,
+    };
+    if (migration.cursor) filter._id = { $gt: migration.cursor };
+
+    const batch = await Media.find(filter)
+      .sort({ _id: 1 })
+      .limit(migration.batchSize)
+      .setOptions({ includeInactive: true });
+
+    if (batch.length === 0) {
+      await StorageMigration.findByIdAndUpdate(id, {
+        status: "completed",
+        completedAt: new Date(),
+      });
+      return false;
+    }
+
+    const source = getStorageProvider(migration.from);
+    const target = getStorageProvider(migration.to);
+
+    for (const media of batch) {
+      const update: Record<string, unknown> = {
+        $set: { cursor: media._id.toString() },
+      };
+      try {
+        const result = await this.migrateMedia(
+          media,
+          source,
+          target,
+          migration
+        );
+        update.$inc = {
+          "stats.processed": 1,
+          "stats.migrated": result.records,
+          "stats.objectsCopied": result.objects,
+          "stats.bytesCopied": result.bytes,
+        };
+      } catch (error) {
+        update.$inc = { "stats.processed": 1, "stats.failed": 1 };
+        update.$push = {
+          failures: {
+            $each: [
+              {
+                mediaId: media._id.toString(),
+                error: (error as Error).message,
+                failedAt: new Date(),
+              },
+            ],
+            $slice: -MAX_RECORDED_FAILURES,
+          },
+        };
+      }
+      await StorageMigration.findByIdAndUpdate(id, update);
+    }
+
+    return batch.length === migration.batchSize;
+  }
+
+  /**
+   * Copy every stored object of a media record to the target provider and
+   * point the record, and any duplicates sharing its files, at the copies.
+   * Source objects are left in place so the switch can be rolled back;
+   * cached renders are not copied and are regenerated on demand.
+   */
+  private async migrateMedia(
+    media: IMediaDocument,
+    source: StorageBackend,
+    target: StorageBackend,
+    migration: IStorageMigrationDocument
+  ): Promise<MediaMigrationResult> {
+    // A duplicate earlier in the batch may have moved the shared files already
+    const pending = await Media.exists({
+      _id: media._id,
+      storageProvider: migration.from,
+    }).setOptions({ includeInactive: true });
+    if (!pending) {
+      return { records: 0, objects: 0, bytes: 0 };
+    }
+
+    const objects = await this.collectObjects(media, source);
+
+    if (migration.dryRun) {
+      for (const object of objects) {
+        if (!(await source.exists(object.key))) {
+          throw new Error(`Object '${object.key}' is missing from the source`);
+        }
+      }
+      return { records: 1, objects: objects.length, bytes: 0 };
+    }
+
+    // Objects are copied through memory one at a time
+    const copied = new Map<string, CopiedObject>();
+    let bytes = 0;
+    for (const object of objects) {
+      const buffer = await source.download(object.key);
+      copied.set(
+        object.key,
+        await target.upload(buffer, object.key, object.mimeType)
+      );
+      bytes += buffer.length;
+    }
+
+    const filter = media.contentHash
+      ? { contentHash: media.contentHash, storageProvider: migration.from }
+      : { _id: media._id };
+    const result = await Media.updateMany(
+      filter,
+      this.rewriteLocations(media, copied, migration.to)
+    );
+    if (media.contentHash) {
+      await this.moveBlob(media, copied, migration);
+    }
+
+    return {
+      records: result.modifiedCount,
+      objects: objects.length,
+      bytes,
+    };
+  }
+
+  // The original, the served file, variants, legacy thumbnails and HLS trees
+  private async collectObjects(
+    media: IMediaDocument,
+    source: StorageBackend
+  ): Promise<StoredObject[]> {
+    const objects = new Map<string, string>();
+    const originalKey = getOriginalKey(media);
+
+    objects.set(
+      originalKey,
+      media.original?.mimeType || media.metadata.mimeType
+    );
+    objects.set(media.storagePath, media.metadata.mimeType);
+    for (const variant of media.variants || []) {
+      objects.set(variant.key, "image/webp");
+    }
+
+    const legacyThumbKey = this.getLegacyThumbnailKey(media);
+    if (legacyThumbKey && (await source.exists(legacyThumbKey))) {
+      objects.set(legacyThumbKey, "image/webp");
+    }
+
+    if (media.streaming?.hlsPath) {
+      for (const key of await source.list(media.streaming.hlsPath)) {
+        objects.set(
+          key,
+          getFileExtension(key) === ".m3u8"
+            ? "application/vnd.apple.mpegurl"
+            : "video/mp2t"
+        );
+      }
+    }
+
+    return [...objects].map(([key, mimeType]) => ({ key, mimeType }));
+  }
+
+  // Records processed before variants existed kept a single thumbnail
+  private getLegacyThumbnailKey(media: IMediaDocument): string | undefined {
+    if (!media.thumbnail?.url || media.variants?.length) return undefined;
+    return media.storagePath.replace(/(\.[^.]+)$/, "-thumb.webp");
+  }
+
+  private rewriteLocations(
+    media: IMediaDocument,
+    copied: Map<string, CopiedObject>,
+    to: StorageProvider
+  ): Record<string, unknown> {
+    const data = media.toObject() as unknown as IMedia;
+    const locate = (key: string): CopiedObject => {
+      const object = copied.get(key);
+      if (!object) {
+        throw new Error(`Object '${key}' was not copied`);
+      }
+      return object;
+    };
+
+    const served = locate(media.storagePath);
+    const variants = (data.variants || []).map((variant) => ({
+      ...variant,
+      ...locate(variant.key),
+    }));
+    const update: Record<string, unknown> = {
+      storageProvider: to,
+      storagePath: served.key,
+      url: served.url,
+      variants,
+    };
+
+    if (data.original) {
+      const original = locate(data.original.key);
+      update.original = { ...data.original, ...original };
+    }
+
+    if (data.thumbnail?.url) {
+      const legacyThumbKey = this.getLegacyThumbnailKey(media);
+      const index = (data.variants || []).findIndex(
+        (variant) => variant.url === data.thumbnail?.url
+      );
+      const url =
+        index !== -1
+          ? variants[index].url
+          : legacyThumbKey && copied.get(legacyThumbKey)?.url;
+      if (url) {
+        update.thumbnail = { ...data.thumbnail, url };
+      }
+    }
+
+    if (data.streaming?.hlsPath) {
+      const master = copied.get(`${data.streaming.hlsPath}master.m3u8`);
+      update.streaming = {
+        ...data.streaming,
+        hlsUrl: master?.url ?? data.streaming.hlsUrl,
+      };
+    }
+
+    return update;
+  }
+
+  // Deduplication bookkeeping follows the shared files to the target
+  private async moveBlob(
+    media: IMediaDocument,
+    copied: Map<string, CopiedObject>,
+    migration: IStorageMigrationDocument
+  ): Promise<void> {
+    const blob = await MediaBlob.findOne({
+      contentHash: media.contentHash,
+      storageProvider: migration.from,
+    });
+    if (!blob) return;
+
+    const existing = await MediaBlob.findOne({
+      contentHash: media.contentHash,
+      storageProvider: migration.to,
+    });
+    if (existing) {
+      // The target already holds this content; merge the references
+      await MediaBlob.updateOne(
+        { _id: existing._id },
+        { $inc: { refCount: blob.refCount } }
+      );
+      await MediaBlob.deleteOne({ _id: blob._id });
+      return;
+    }
+
+    await MediaBlob.updateOne(
+      { _id: blob._id },
+      {
+        storageProvider: migration.to,
+        originalKey: copied.get(blob.originalKey)?.key ?? getOriginalKey(media),
+      }
+    );
+  }
+}
+
+export const storageMigrationService = new StorageMigrationService();
@@ -0,0 +1,50 @@
+import type { Document } from "mongoose";
+import type { StorageProvider } from "@media/media.type";
+
+export type StorageMigrationStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "failed";
+
+export interface StorageMigrationStats {
+  total: number; // Media on the source provider when the migration started
+  processed: number;
+  migrated: number; // Would be migrated, for dry runs
+  failed: number;
+  objectsCopied: number;
+  bytesCopied: number;
+}
+
+export interface StorageMigrationFailure {
+  mediaId: string;
+  error: string;
+  failedAt: Date;
+}
+
+export interface IStorageMigration {
+  _id?: string;
+  id?: string; // Serialized form of _id (see toJSON transform)
+  from: StorageProvider;
+  to: StorageProvider;
+  dryRun: boolean;
+  batchSize: number;
+
+  status: StorageMigrationStatus;
+  cursor?: string; // Last media ID handled; batches resume after it
+  stats: StorageMigrationStats;
+  failures: StorageMigrationFailure[]; // Most recent failures only
+  error?: string; // Why the migration stopped, when failed
+
+  startedBy: string;
+  startedAt?: Date;
+  completedAt?: Date;
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IStorageMigrationDocument
+  extends Omit<IStorageMigration, "_id" | "id">,
+    Document {}
@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction } from "express";
+import { uploadIntentService } from "./upload-intent.service";
+import {
+  createUploadIntentSchema,
+  completeUploadIntentSchema,
+  localUploadSchema,
+} from "@validations/upload-intent.validation";
+import { BadRequestError } from "@middlewares/error.middleware";
+import { getAuthUser } from "@middlewares/auth.middleware";
+
+export class UploadIntentController {
+  async createIntent(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { body } = createUploadIntentSchema.parse({ body: req.body });
+      const actor = getAuthUser(req);
+
+      const intent = await uploadIntentService.createIntent({
+        entityType: body.entityType,
+        entityId: body.entityId,
+        fieldName: body.fieldName,
+        visibility: body.visibility,
+        uploadedBy: actor.id,
+        actor,
+        originalName: body.fileName,
+        mimeType: body.mimeType,
+        size: body.size,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Upload intent created",
+        data: intent,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async completeIntent(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = completeUploadIntentSchema.parse({
+        params: req.params,
+      });
+      const media = await uploadIntentService.completeIntent(
+        params.id,
+        getAuthUser(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Media uploaded successfully",
+        data: media,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async receiveLocalUpload(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { query } = localUploadSchema.parse({ query: req.query });
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new BadRequestError("No file uploaded");
+      }
+
+      await uploadIntentService.receiveLocalUpload(
+        query.key,
+        query.expires,
+        query.signature,
+        req.body
+      );
+
+      res.json({
+        success: true,
+        message: "File received",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const uploadIntentController = new UploadIntentController();
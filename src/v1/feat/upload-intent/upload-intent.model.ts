@@ -0,0 +1,104 @@
+import mongoose, { Schema } from "mongoose";
+import config from "@config/dotenv.config";
+import type { IUploadIntentDocument } from "./upload-intent.type";
+import { StorageProvider } from "@media/media.type";
+import { entityTypeRegistry } from "@entity-types/index";
+
+const uploadIntentSchema = new Schema<IUploadIntentDocument>(
+  {
+    // Storage target
+    fileName: {
+      type: String,
+      required: true,
+    },
+    storagePath: {
+      type: String,
+      required: true,
+    },
+    storageProvider: {
+      type: String,
+      enum: Object.values(StorageProvider),
+      required: true,
+    },
+    publicUrl: {
+      type: String,
+      required: true,
+    },
+
+    // File info
+    originalName: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+
+    // Entity relationship
+    entityType: {
+      type: String,
+      enum: entityTypeRegistry.names(),
+      required: true,
+    },
+    entityId: {
+      type: String,
+      required: true,
+    },
+    fieldName: {
+      type: String,
+      required: true,
+    },
+    uploadedBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    visibility: {
+      type: String,
+      enum: ["public", "private"],
+      default: "public",
+    },
+
+    // Status
+    status: {
+      type: String,
+      enum: ["pending", "completing", "completed"],
+      default: "pending",
+    },
+    mediaId: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret): Record<string, unknown> => {
+        const transformed = { ...ret, id: ret._id };
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { _id, __v, publicUrl, ...rest } = transformed;
+        return rest;
+      },
+    },
+  }
+);
+
+// Keep intents around for a grace period after the target expires
+uploadIntentSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: config.resumableUpload.sessionTtl }
+);
+
+export const UploadIntent = mongoose.model<IUploadIntentDocument>(
+  "UploadIntent",
+  uploadIntentSchema
+);
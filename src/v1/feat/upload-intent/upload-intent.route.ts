@@ -0,0 +1,26 @@
+import express, { Router } from "express";
+import config from "@config/dotenv.config";
+import { authenticate } from "@middlewares/auth.middleware";
+import { uploadIntentController } from "./upload-intent.controller";
+
+const router = Router();
+
+router.post(
+  "/",
+  authenticate,
+  uploadIntentController.createIntent.bind(uploadIntentController)
+);
+router.post(
+  "/:id/complete",
+  authenticate,
+  uploadIntentController.completeIntent.bind(uploadIntentController)
+);
+
+// Signed PUT target for the local provider (the signature is the credential)
+router.put(
+  "/local",
+  express.raw({ type: () => true, limit: config.maxFileSize }),
+  uploadIntentController.receiveLocalUpload.bind(uploadIntentController)
+);
+
+export default router;
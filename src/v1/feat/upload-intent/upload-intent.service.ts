@@ -0,0 +1,282 @@
+import { UploadIntent } from "./upload-intent.model";
+import { storageProvider, getStorageProvider } from "@providers/index";
+import type { StorageProvider as Storage } from "@providers/index";
+import config from "@config/dotenv.config";
+import {
+  validateUpload,
+  verifyFileSignature,
+  getMediaTypeFromMime,
+  getUnscannedKey,
+  FILE_SIGNATURE_BYTES,
+} from "@utils/file.utils";
+import { getImageMetadata } from "@utils/image.utils";
+import { verifySignedResource } from "@utils/signature.utils";
+import { mediaService } from "@media/media.service";
+import type { UploadMediaOptions } from "@media/media.service";
+import {
+  NotFoundError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+} from "@middlewares/error.middleware";
+import { isAdmin } from "@utils/auth.utils";
+import type { AuthUser } from "@utils/auth.utils";
+import { MediaType, StorageProvider } from "@media/media.type";
+import type { IMedia, MediaDimensions } from "@media/media.type";
+import type {
+  IUploadIntent,
+  IUploadIntentDocument,
+  UploadIntentWithTarget,
+} from "./upload-intent.type";
+
+export interface CreateUploadIntentOptions extends UploadMediaOptions {
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+// Enough of an image to hold the dimensions in common formats
+const IMAGE_HEADER_BYTES = 64 * 1024;
+
+// Read the first bytes of a stored object without fetching all of it
+async function readLeadingBytes(
+  storage: Storage,
+  key: string,
+  length: number
+): Promise<Buffer> {
+  const { stream } = await storage.getStream(key, {
+    start: 0,
+    end: length - 1,
+  });
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  // Stop early in case the provider ignored the range
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+    received += chunk.length;
+    if (received >= length) {
+      stream.destroy();
+      break;
+    }
+  }
+  return Buffer.concat(chunks).subarray(0, length);
+}
+
+// Dimensions from an image's header; the processor fills them in otherwise
+async function readImageDimensions(
+  storage: Storage,
+  key: string
+): Promise<MediaDimensions | undefined> {
+  try {
+    const header = await readLeadingBytes(storage, key, IMAGE_HEADER_BYTES);
+    const { width, height } = await getImageMetadata(header);
+    return width && height ? { width, height } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class UploadIntentService {
+  // Upload options for the intent, with the user completing it as actor
+  private getUploadOptions(
+    intent: IUploadIntentDocument,
+    actor: AuthUser
+  ): UploadMediaOptions {
+    return {
+      entityType: intent.entityType,
+      entityId: intent.entityId,
+      fieldName: intent.fieldName,
+      uploadedBy: intent.uploadedBy,
+      visibility: intent.visibility,
+      actor,
+    };
+  }
+
+  async createIntent(
+    options: CreateUploadIntentOptions
+  ): Promise<UploadIntentWithTarget> {
+    const validation = validateUpload(options.mimeType, options.size);
+    if (!validation.valid) {
+      throw new BadRequestError(validation.error);
+    }
+    await mediaService.assertUploadAllowed(
+      options,
+      options.mimeType,
+      options.size
+    );
+
+    const { fileName, storagePath } = mediaService.createStorageLocation(
+      options.originalName,
+      options
+    );
+    // Kept out of public reach until the processing job has scanned it
+    const target = await storageProvider.createPresignedUpload(
+      getUnscannedKey(storagePath),
+      options.mimeType,
+      options.size,
+      config.uploadIntent.expiresIn
+    );
+
+    const intent = await UploadIntent.create({
+      fileName,
+      storagePath: target.key,
+      storageProvider: config.storageProvider as StorageProvider,
+      publicUrl: target.publicUrl,
+      originalName: options.originalName,
+      mimeType: options.mimeType,
+      size: options.size,
+      entityType: options.entityType,
+      entityId: options.entityId,
+      fieldName: options.fieldName,
+      uploadedBy: options.uploadedBy,
+      visibility: options.visibility ?? config.mediaVisibility.default,
+      status: "pending",
+      expiresAt: target.expiresAt,
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { key, publicUrl, ...upload } = target;
+
+    return {
+      ...(intent.toJSON() as unknown as IUploadIntent),
+      upload,
+    };
+  }
+
+  async completeIntent(id: string, actor: AuthUser): Promise<IMedia> {
+    const intent = await UploadIntent.findById(id);
+    if (!intent) {
+      throw new NotFoundError("Upload intent not found");
+    }
+    if (intent.uploadedBy !== actor.id && !isAdmin(actor)) {
+      throw new ForbiddenError("Upload intent belongs to another user");
+    }
+    // Completing twice returns the media created the first time
+    if (intent.status === "completed" && intent.mediaId) {
+      return mediaService.getMediaById(intent.mediaId, actor);
+    }
+
+    // Claim the intent so concurrent completes cannot both create media
+    const claimed = await UploadIntent.findOneAndUpdate(
+      { _id: intent._id, status: "pending" },
+      { status: "completing" },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new ConflictError("Upload intent is already being completed");
+    }
+
+    try {
+      return await this.createMedia(claimed, actor);
+    } catch (error) {
+      // Let the client retry, e.g. after uploading the missing file
+      await UploadIntent.updateOne(
+        { _id: intent._id, status: "completing" },
+        { status: "pending" }
+      );
+      throw error;
+    }
+  }
+
+  // Verify the uploaded object and turn it into a media record
+  private async createMedia(
+    intent: IUploadIntentDocument,
+    actor: AuthUser
+  ): Promise<IMedia> {
+    const storage = getStorageProvider(intent.storageProvider);
+    if (!(await storage.exists(intent.storagePath))) {
+      throw new BadRequestError("File has not been uploaded yet");
+    }
+
+    // Verify what actually landed in storage, not what was declared.
+    // The size comes from metadata so oversized objects are never fetched.
+    const size = await storage.getSize(intent.storagePath);
+    if (size > intent.size) {
+      await storage.delete(intent.storagePath);
+      throw new BadRequestError(
+        `File is larger than the declared ${intent.size} bytes`
+      );
+    }
+    const validation = validateUpload(intent.mimeType, size);
+    if (!validation.valid) {
+      await storage.delete(intent.storagePath);
+      throw new BadRequestError(validation.error);
+    }
+    const signature = verifyFileSignature(
+      await readLeadingBytes(storage, intent.storagePath, FILE_SIGNATURE_BYTES),
+      intent.mimeType
+    );
+    if (!signature.valid) {
+      await storage.delete(intent.storagePath);
+      throw new BadRequestError(signature.error);
+    }
+    const mimeType = signature.mimeType ?? intent.mimeType;
+    const options = this.getUploadOptions(intent, actor);
+    try {
+      await mediaService.assertUploadAllowed(options, mimeType, size);
+    } catch (error) {
+      await storage.delete(intent.storagePath);
+      throw error;
+    }
+
+    const dimensions =
+      getMediaTypeFromMime(mimeType) === MediaType.IMAGE
+        ? await readImageDimensions(storage, intent.storagePath)
+        : undefined;
+
+    const media = await mediaService.createMediaFromStorage({
+      fileName: intent.fileName,
+      storagePath: intent.storagePath,
+      url: intent.publicUrl,
+      originalName: intent.originalName,
+      mimeType,
+      size,
+      dimensions,
+      ...options,
+      storageProvider: intent.storageProvider,
+    });
+
+    await UploadIntent.findByIdAndUpdate(intent._id, {
+      status: "completed",
+      mediaId: media.id,
+    });
+
+    return media;
+  }
+
+  /**
+   * Receive a file PUT to a signed local upload URL. Only used when the
+   * local provider is configured, standing in for S3/Cloudinary endpoints.
+   */
+  async receiveLocalUpload(
+    key: string,
+    expires: number,
+    signature: string,
+    buffer: Buffer
+  ): Promise<void> {
+    if (config.storageProvider !== "local") {
+      throw new NotFoundError("Local uploads are not enabled");
+    }
+    if (!verifySignedResource(`PUT:${key}`, expires, signature)) {
+      throw new ForbiddenError("Invalid or expired upload signature");
+    }
+
+    const intent = await UploadIntent.findOne({
+      storagePath: key,
+      status: "pending",
+    });
+    if (!intent) {
+      throw new NotFoundError("Upload intent not found");
+    }
+    if (buffer.length > intent.size) {
+      throw new BadRequestError(
+        `File is larger than the declared ${intent.size} bytes`
+      );
+    }
+
+    await storageProvider.upload(buffer, key, intent.mimeType);
+  }
+}
+
+export const uploadIntentService = new UploadIntentService();
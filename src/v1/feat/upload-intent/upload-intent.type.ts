@@ -0,0 +1,43 @@
+import type { Document } from "mongoose";
+import type {
+  EntityType,
+  MediaVisibility,
+  StorageProvider,
+  PresignedUpload,
+} from "@media/media.type";
+
+export type UploadIntentStatus = "pending" | "completing" | "completed";
+
+export interface IUploadIntent {
+  _id?: string;
+  fileName: string;
+  storagePath: string; // Key the client uploads to
+  storageProvider: StorageProvider;
+  publicUrl: string;
+
+  originalName: string;
+  mimeType: string;
+  size: number; // Declared by the client, verified on completion
+
+  entityType: EntityType;
+  entityId: string;
+  fieldName: string;
+  uploadedBy: string;
+  visibility: MediaVisibility;
+
+  status: UploadIntentStatus;
+  mediaId?: string; // Set once completed
+  expiresAt: Date; // When the upload target stops accepting data
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IUploadIntentDocument
+  extends Omit<IUploadIntent, "_id">,
+    Document {}
+
+export interface UploadIntentWithTarget extends IUploadIntent {
+  upload: Omit<PresignedUpload, "key" | "publicUrl">;
+}
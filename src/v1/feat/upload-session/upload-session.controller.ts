@@ -0,0 +1,149 @@
+import { Request, Response, NextFunction } from "express";
+import { uploadSessionService } from "./upload-session.service";
+import {
+  createUploadSessionSchema,
+  uploadSessionParamsSchema,
+  appendChunkSchema,
+} from "@validations/upload-session.validation";
+import { BadRequestError } from "@middlewares/error.middleware";
+import { getAuthUser } from "@middlewares/auth.middleware";
+
+export class UploadSessionController {
+  async createSession(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { body } = createUploadSessionSchema.parse({ body: req.body });
+      const actor = getAuthUser(req);
+
+      const session = await uploadSessionService.createSession({
+        entityType: body.entityType,
+        entityId: body.entityId,
+        fieldName: body.fieldName,
+        visibility: body.visibility,
+        uploadedBy: actor.id,
+        actor,
+        originalName: body.fileName,
+        mimeType: body.mimeType,
+        totalSize: body.totalSize,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Upload session created",
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSession(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = uploadSessionParamsSchema.parse({
+        params: req.params,
+      });
+      const session = await uploadSessionService.getSession(
+        params.sessionId,
+        getAuthUser(req)
+      );
+
+      res.setHeader("Upload-Offset", session.offset.toString());
+      res.setHeader("Upload-Length", session.totalSize.toString());
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async appendChunk(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params, headers } = appendChunkSchema.parse({
+        params: req.params,
+        headers: req.headers,
+      });
+      if (!Buffer.isBuffer(req.body)) {
+        throw new BadRequestError(
+          "Chunk must be sent as application/offset+octet-stream"
+        );
+      }
+
+      const session = await uploadSessionService.appendChunk(
+        params.sessionId,
+        headers["upload-offset"],
+        req.body,
+        getAuthUser(req)
+      );
+
+      res.setHeader("Upload-Offset", session.offset.toString());
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async completeSession(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = uploadSessionParamsSchema.parse({
+        params: req.params,
+      });
+      const media = await uploadSessionService.completeSession(
+        params.sessionId,
+        getAuthUser(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: "Media uploaded successfully",
+        data: media,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async abortSession(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = uploadSessionParamsSchema.parse({
+        params: req.params,
+      });
+      await uploadSessionService.abortSession(
+        params.sessionId,
+        getAuthUser(req)
+      );
+
+      res.json({
+        success: true,
+        message: "Upload session aborted",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const uploadSessionController = new UploadSessionController();
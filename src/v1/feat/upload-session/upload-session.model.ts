@@ -0,0 +1,130 @@
+import mongoose, { Schema } from "mongoose";
+import type { IUploadSessionDocument } from "./upload-session.type";
+import { StorageProvider } from "@media/media.type";
+import { entityTypeRegistry } from "@entity-types/index";
+import config from "@config/dotenv.config";
+
+const uploadPartSchema = new Schema(
+  {
+    partNumber: { type: Number, required: true },
+    etag: { type: String, required: true },
+    size: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const uploadSessionSchema = new Schema<IUploadSessionDocument>(
+  {
+    // Storage target
+    uploadId: {
+      type: String,
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    storagePath: {
+      type: String,
+      required: true,
+    },
+    storageProvider: {
+      type: String,
+      enum: Object.values(StorageProvider),
+      required: true,
+    },
+
+    // File info
+    originalName: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    totalSize: {
+      type: Number,
+      required: true,
+    },
+    chunkSize: {
+      type: Number,
+      required: true,
+    },
+    offset: {
+      type: Number,
+      default: 0,
+    },
+    parts: {
+      type: [uploadPartSchema],
+      default: [],
+    },
+
+    // Entity relationship
+    entityType: {
+      type: String,
+      enum: entityTypeRegistry.names(),
+      required: true,
+    },
+    entityId: {
+      type: String,
+      required: true,
+    },
+    fieldName: {
+      type: String,
+      required: true,
+    },
+    uploadedBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    visibility: {
+      type: String,
+      enum: ["public", "private"],
+      default: "public",
+    },
+
+    // Status
+    status: {
+      type: String,
+      enum: ["active", "completing", "completed", "aborted"],
+      default: "active",
+      index: true,
+    },
+    mediaId: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    settledAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret): Record<string, unknown> => {
+        const transformed = { ...ret, id: ret._id };
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { _id, __v, uploadId, parts, ...rest } = transformed;
+        return rest;
+      },
+    },
+  }
+);
+
+// Only settled sessions are removed by MongoDB: abandoned ones keep their
+// upload ID until the expiry job has aborted the multipart upload
+uploadSessionSchema.index(
+  { settledAt: 1 },
+  { expireAfterSeconds: config.resumableUpload.sessionTtl }
+);
+
+export const UploadSession = mongoose.model<IUploadSessionDocument>(
+  "UploadSession",
+  uploadSessionSchema
+);
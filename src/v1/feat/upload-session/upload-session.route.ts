@@ -0,0 +1,41 @@
+import express, { Router } from "express";
+import config from "@config/dotenv.config";
+import { authenticate } from "@middlewares/auth.middleware";
+import { uploadSessionController } from "./upload-session.controller";
+
+const router = Router();
+
+// Chunks arrive as raw bytes; cap them at one chunk
+const chunkBody = express.raw({
+  type: "application/offset+octet-stream",
+  limit: config.resumableUpload.chunkSize,
+});
+
+router.post(
+  "/",
+  authenticate,
+  uploadSessionController.createSession.bind(uploadSessionController)
+);
+router.get(
+  "/:sessionId",
+  authenticate,
+  uploadSessionController.getSession.bind(uploadSessionController)
+);
+router.patch(
+  "/:sessionId",
+  authenticate,
+  chunkBody,
+  uploadSessionController.appendChunk.bind(uploadSessionController)
+);
+router.post(
+  "/:sessionId/complete",
+  authenticate,
+  uploadSessionController.completeSession.bind(uploadSessionController)
+);
+router.delete(
+  "/:sessionId",
+  authenticate,
+  uploadSessionController.abortSession.bind(uploadSessionController)
+);
+
+export default router;
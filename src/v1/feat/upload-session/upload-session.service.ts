@@ -0,0 +1,327 @@
+import { UploadSession } from "./upload-session.model";
+import { storageProvider, getStorageProvider } from "@providers/index";
+import config from "@config/dotenv.config";
+import {
+  validateUpload,
+  verifyFileSignature,
+  getUnscannedKey,
+} from "@utils/file.utils";
+import { jobQueue } from "@jobs/job.queue";
+import { mediaService } from "@media/media.service";
+import type { UploadMediaOptions } from "@media/media.service";
+import {
+  NotFoundError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+} from "@middlewares/error.middleware";
+import { isAdmin } from "@utils/auth.utils";
+import type { AuthUser } from "@utils/auth.utils";
+import { StorageProvider } from "@media/media.type";
+import type { IMedia } from "@media/media.type";
+import type {
+  IUploadSession,
+  IUploadSessionDocument,
+} from "./upload-session.type";
+
+export const UPLOAD_SESSION_EXPIRE_JOB = "upload-session.expire";
+
+export interface UploadSessionExpirePayload {
+  sessionId: string;
+}
+
+export interface CreateUploadSessionOptions extends UploadMediaOptions {
+  originalName: string;
+  mimeType: string;
+  totalSize: number;
+}
+
+export class UploadSessionService {
+  // Sessions are private to the user who started them
+  private async findSession(
+    id: string,
+    actor: AuthUser
+  ): Promise<IUploadSessionDocument> {
+    const session = await UploadSession.findById(id);
+    if (!session) {
+      throw new NotFoundError("Upload session not found");
+    }
+    if (session.uploadedBy !== actor.id && !isAdmin(actor)) {
+      throw new ForbiddenError("Upload session belongs to another user");
+    }
+    return session;
+  }
+
+  private async findActiveSession(
+    id: string,
+    actor: AuthUser
+  ): Promise<IUploadSessionDocument> {
+    const session = await this.findSession(id, actor);
+    if (session.status !== "active") {
+      throw new ConflictError(`Upload session is ${session.status}`);
+    }
+    if (session.expiresAt.getTime() < Date.now()) {
+      throw new BadRequestError("Upload session has expired");
+    }
+    return session;
+  }
+
+  // Options for the session's target, checked against the completing user
+  private getUploadOptions(
+    session: IUploadSessionDocument,
+    actor: AuthUser
+  ): UploadMediaOptions {
+    return {
+      entityType: session.entityType,
+      entityId: session.entityId,
+      fieldName: session.fieldName,
+      uploadedBy: session.uploadedBy,
+      visibility: session.visibility,
+      actor,
+    };
+  }
+
+  async createSession(
+    options: CreateUploadSessionOptions
+  ): Promise<IUploadSession> {
+    // Cloudinary has no part-level upload API to resume against
+    if (config.storageProvider === StorageProvider.CLOUDINARY) {
+      throw new BadRequestError(
+        "Resumable uploads are not supported by the configured storage provider"
+      );
+    }
+    const validation = validateUpload(
+      options.mimeType,
+      options.totalSize,
+      config.resumableUpload.maxFileSize
+    );
+    if (!validation.valid) {
+      throw new BadRequestError(validation.error);
+    }
+    await mediaService.assertUploadAllowed(
+      options,
+      options.mimeType,
+      options.totalSize
+    );
+
+    const location = mediaService.createStorageLocation(
+      options.originalName,
+      options
+    );
+    // Kept out of public reach until the processing job has scanned it
+    const storagePath = getUnscannedKey(location.storagePath);
+    const uploadId = await storageProvider.createMultipartUpload(
+      storagePath,
+      options.mimeType
+    );
+
+    const session = await UploadSession.create({
+      uploadId,
+      fileName: location.fileName,
+      storagePath,
+      storageProvider: config.storageProvider as StorageProvider,
+      originalName: options.originalName,
+      mimeType: options.mimeType,
+      totalSize: options.totalSize,
+      chunkSize: config.resumableUpload.chunkSize,
+      offset: 0,
+      entityType: options.entityType,
+      entityId: options.entityId,
+      fieldName: options.fieldName,
+      uploadedBy: options.uploadedBy,
+      visibility: options.visibility ?? config.mediaVisibility.default,
+      status: "active",
+      expiresAt: new Date(
+        Date.now() + config.resumableUpload.sessionTtl * 1000
+      ),
+    });
+    await jobQueue.enqueue<UploadSessionExpirePayload>(
+      UPLOAD_SESSION_EXPIRE_JOB,
+      { sessionId: session._id.toString() },
+      { delay: config.resumableUpload.sessionTtl * 1000 }
+    );
+
+    return session.toJSON() as unknown as IUploadSession;
+  }
+
+  async getSession(id: string, actor: AuthUser): Promise<IUploadSession> {
+    const session = await this.findSession(id, actor);
+    return session.toJSON() as unknown as IUploadSession;
+  }
+
+  async appendChunk(
+    id: string,
+    offset: number,
+    chunk: Buffer,
+    actor: AuthUser
+  ): Promise<IUploadSession> {
+    const session = await this.findActiveSession(id, actor);
+
+    if (offset !== session.offset) {
+      throw new ConflictError(
+        `Upload offset mismatch: expected ${session.offset}, received ${offset}`
+      );
+    }
+    if (chunk.length === 0) {
+      throw new BadRequestError("Chunk is empty");
+    }
+
+    const end = offset + chunk.length;
+    if (end > session.totalSize) {
+      throw new BadRequestError("Chunk exceeds declared upload size");
+    }
+    // Every part except the last must be a full chunk (S3 multipart rule)
+    if (end < session.totalSize && chunk.length !== session.chunkSize) {
+      throw new BadRequestError(
+        `Chunks must be exactly ${session.chunkSize} bytes except the last`
+      );
+    }
+
+    // The first chunk carries the file signature; check it before storing
+    let mimeType = session.mimeType;
+    if (offset === 0) {
+      const signature = verifyFileSignature(chunk, session.mimeType);
+      if (!signature.valid) {
+        throw new BadRequestError(signature.error);
+      }
+      mimeType = signature.mimeType ?? mimeType;
+    }
+
+    const part = await getStorageProvider(session.storageProvider).uploadPart(
+      session.storagePath,
+      session.uploadId,
+      session.parts.length + 1,
+      chunk
+    );
+
+    // Guard against a concurrent append for the same offset
+    const updated = await UploadSession.findOneAndUpdate(
+      { _id: session._id, offset, status: "active" },
+      {
+        $set: { mimeType },
+        $inc: { offset: chunk.length },
+        $push: { parts: part },
+      },
+      { new: true }
+    );
+    if (!updated) {
+      throw new ConflictError("Upload session was modified concurrently");
+    }
+
+    return updated.toJSON() as unknown as IUploadSession;
+  }
+
+  async completeSession(id: string, actor: AuthUser): Promise<IMedia> {
+    const existing = await this.findSession(id, actor);
+    // Completing twice returns the media created the first time
+    if (existing.status === "completed" && existing.mediaId) {
+      return mediaService.getMediaById(existing.mediaId, actor);
+    }
+
+    const active = await this.findActiveSession(id, actor);
+    if (active.offset !== active.totalSize) {
+      throw new BadRequestError(
+        `Upload incomplete: received ${active.offset} of ${active.totalSize} bytes`
+      );
+    }
+
+    // Claim the session so concurrent completes cannot both create media
+    const session = await UploadSession.findOneAndUpdate(
+      { _id: active._id, status: "active", offset: active.totalSize },
+      { status: "completing" },
+      { new: true }
+    );
+    if (!session) {
+      throw new ConflictError("Upload session was modified concurrently");
+    }
+
+    try {
+      return await this.createMedia(session, actor);
+    } catch (error) {
+      // Leave the session resumable, and abortable by the expiry job
+      await UploadSession.updateOne(
+        { _id: session._id, status: "completing" },
+        { status: "active" }
+      );
+      throw error;
+    }
+  }
+
+  // Assemble the uploaded parts and turn them into a media record
+  private async createMedia(
+    session: IUploadSessionDocument,
+    actor: AuthUser
+  ): Promise<IMedia> {
+    // The field may have filled up while the file was uploading
+    const options = this.getUploadOptions(session, actor);
+    await mediaService.assertUploadAllowed(
+      options,
+      session.mimeType,
+      session.totalSize
+    );
+
+    const result = await getStorageProvider(
+      session.storageProvider
+    ).completeMultipartUpload(
+      session.storagePath,
+      session.uploadId,
+      session.parts
+    );
+
+    const media = await mediaService.createMediaFromStorage({
+      fileName: session.fileName,
+      storagePath: result.key,
+      url: result.url,
+      originalName: session.originalName,
+      mimeType: session.mimeType,
+      size: session.totalSize,
+      ...options,
+      storageProvider: session.storageProvider,
+    });
+
+    await UploadSession.findByIdAndUpdate(session._id, {
+      status: "completed",
+      mediaId: media.id,
+      settledAt: new Date(),
+    });
+
+    return media;
+  }
+
+  async abortSession(id: string, actor: AuthUser): Promise<void> {
+    const session = await this.findActiveSession(id, actor);
+
+    await getStorageProvider(session.storageProvider).abortMultipartUpload(
+      session.storagePath,
+      session.uploadId
+    );
+    await UploadSession.findByIdAndUpdate(session._id, {
+      status: "aborted",
+      settledAt: new Date(),
+    });
+  }
+
+  /**
+   * Abort a session nobody finished, releasing the parts stored so far.
+   * Runs as a job once the session expires; failures are retried by the queue.
+   */
+  async expireSession(id: string): Promise<void> {
+    const session = await UploadSession.findById(id);
+    if (session?.status === "completing") {
+      // Retried by the queue; the session goes back to active if this fails
+      throw new Error("Upload session is being completed");
+    }
+    if (!session || session.status !== "active") return;
+
+    await getStorageProvider(session.storageProvider).abortMultipartUpload(
+      session.storagePath,
+      session.uploadId
+    );
+    await UploadSession.updateOne(
+      { _id: session._id, status: "active" },
+      { status: "aborted", settledAt: new Date() }
+    );
+  }
+}
+
+export const uploadSessionService = new UploadSessionService();
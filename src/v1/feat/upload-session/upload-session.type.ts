@@ -0,0 +1,47 @@
+import type { Document } from "mongoose";
+import type {
+  EntityType,
+  MediaVisibility,
+  StorageProvider,
+  MultipartUploadPart,
+} from "@media/media.type";
+
+export type UploadSessionStatus =
+  | "active"
+  | "completing"
+  | "completed"
+  | "aborted";
+
+export interface IUploadSession {
+  _id?: string;
+  uploadId: string; // Provider multipart upload ID
+  fileName: string;
+  storagePath: string;
+  storageProvider: StorageProvider;
+
+  originalName: string;
+  mimeType: string;
+  totalSize: number;
+  chunkSize: number;
+  offset: number; // Bytes received so far
+  parts: MultipartUploadPart[];
+
+  entityType: EntityType;
+  entityId: string;
+  fieldName: string;
+  uploadedBy: string;
+  visibility: MediaVisibility;
+
+  status: UploadSessionStatus;
+  mediaId?: string; // Set once finalized
+  expiresAt: Date;
+  settledAt?: Date; // When it was completed or aborted
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IUploadSessionDocument
+  extends Omit<IUploadSession, "_id">,
+    Document {}
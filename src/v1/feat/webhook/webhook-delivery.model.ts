@@ -0,0 +1,91 @@
+import mongoose, { Schema } from "mongoose";
+import config from "@config/dotenv.config";
+import type { IWebhookDeliveryDocument } from "./webhook.type";
+
+const deliveryAttemptSchema = new Schema(
+  {
+    attemptedAt: { type: Date, required: true },
+    responseStatus: { type: Number },
+    responseBody: { type: String },
+    error: { type: String },
+    durationMs: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const webhookDeliverySchema = new Schema<IWebhookDeliveryDocument>(
+  {
+    subscriptionId: {
+      type: String,
+      required: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    eventType: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+
+    // Delivery state
+    status: {
+      type: String,
+      enum: ["pending", "succeeded", "failed"],
+      default: "pending",
+    },
+    attemptCount: {
+      type: Number,
+      default: 0,
+    },
+    attempts: {
+      type: [deliveryAttemptSchema],
+      default: [],
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+    replayedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret): Record<string, unknown> => {
+        const transformed = { ...ret, id: ret._id };
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { _id, __v, ...rest } = transformed;
+        return rest;
+      },
+    },
+  }
+);
+
+// Delivery log, newest first
+webhookDeliverySchema.index({ subscriptionId: 1, createdAt: -1 });
+// Outbox redeliveries must not fan out twice
+webhookDeliverySchema.index(
+  { subscriptionId: 1, eventId: 1 },
+  { unique: true }
+);
+webhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: config.webhooks.retention }
+);
+
+export const WebhookDelivery = mongoose.model<IWebhookDeliveryDocument>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);
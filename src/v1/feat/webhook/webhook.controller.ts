@@ -0,0 +1,190 @@
+import { Request, Response, NextFunction } from "express";
+import { webhookService } from "./webhook.service";
+import {
+  createWebhookSubscriptionSchema,
+  updateWebhookSubscriptionSchema,
+  webhookSubscriptionParamsSchema,
+  getWebhookDeliveriesSchema,
+  webhookDeliveryParamsSchema,
+} from "@validations/webhook.validation";
+import { getAuthUser } from "@middlewares/auth.middleware";
+
+export class WebhookController {
+  async createSubscription(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { body } = createWebhookSubscriptionSchema.parse({
+        body: req.body,
+      });
+
+      const subscription = await webhookService.createSubscription({
+        ...body,
+        createdBy: getAuthUser(req).id,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: "Webhook subscription created",
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listSubscriptions(
+    _req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const subscriptions = await webhookService.listSubscriptions();
+
+      res.json({
+        success: true,
+        data: subscriptions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSubscription(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = webhookSubscriptionParamsSchema.parse({
+        params: req.params,
+      });
+      const subscription = await webhookService.getSubscription(params.id);
+
+      res.json({
+        success: true,
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSubscription(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params, body } = updateWebhookSubscriptionSchema.parse({
+        params: req.params,
+        body: req.body,
+      });
+
+      const subscription = await webhookService.updateSubscription(
+        params.id,
+        body
+      );
+
+      res.json({
+        success: true,
+        message: "Webhook subscription updated",
+        data: subscription,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteSubscription(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = webhookSubscriptionParamsSchema.parse({
+        params: req.params,
+      });
+      await webhookService.deleteSubscription(params.id);
+
+      res.json({
+        success: true,
+        message: "Webhook subscription deleted",
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getDeliveries(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params, query } = getWebhookDeliveriesSchema.parse({
+        params: req.params,
+        query: req.query,
+      });
+      const result = await webhookService.getDeliveries(params.id, query);
+
+      res.json({
+        success: true,
+        ...result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getDelivery(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = webhookDeliveryParamsSchema.parse({
+        params: req.params,
+      });
+      const delivery = await webhookService.getDelivery(
+        params.id,
+        params.deliveryId
+      );
+
+      res.json({
+        success: true,
+        data: delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async replayDelivery(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { params } = webhookDeliveryParamsSchema.parse({
+        params: req.params,
+      });
+      const delivery = await webhookService.replayDelivery(
+        params.id,
+        params.deliveryId
+      );
+
+      res.status(202).json({
+        success: true,
+        message: "Webhook delivery queued for replay",
+        data: delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const webhookController = new WebhookController();
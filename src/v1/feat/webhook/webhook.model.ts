@@ -0,0 +1,69 @@
+import mongoose, { Schema } from "mongoose";
+import type { IWebhookSubscriptionDocument } from "./webhook.type";
+import { entityTypeRegistry } from "@entity-types/index";
+
+const webhookSubscriptionSchema = new Schema<IWebhookSubscriptionDocument>(
+  {
+    url: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+
+    // Filters
+    events: {
+      type: [String],
+      enum: [
+        "media.uploaded",
+        "media.processed",
+        "media.updated",
+        "media.deleted",
+        "media.purged",
+      ],
+      default: [],
+    },
+    entityTypes: {
+      type: [String],
+      enum: entityTypeRegistry.names(),
+      default: [],
+    },
+    fieldNames: {
+      type: [String],
+      default: [],
+    },
+
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret): Record<string, unknown> => {
+        const transformed = { ...ret, id: ret._id };
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { _id, __v, secret, ...rest } = transformed;
+        return rest;
+      },
+    },
+  }
+);
+
+export const WebhookSubscription = mongoose.model<IWebhookSubscriptionDocument>(
+  "WebhookSubscription",
+  webhookSubscriptionSchema
+);
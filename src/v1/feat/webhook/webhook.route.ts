@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { authenticate, requireAdmin } from "@middlewares/auth.middleware";
+import { webhookController } from "./webhook.controller";
+
+const router = Router();
+
+router.use(authenticate, requireAdmin);
+
+router.post("/", webhookController.createSubscription.bind(webhookController));
+router.get("/", webhookController.listSubscriptions.bind(webhookController));
+router.get("/:id", webhookController.getSubscription.bind(webhookController));
+router.patch(
+  "/:id",
+  webhookController.updateSubscription.bind(webhookController)
+);
+router.delete(
+  "/:id",
+  webhookController.deleteSubscription.bind(webhookController)
+);
+
+// Delivery log
+router.get(
+  "/:id/deliveries",
+  webhookController.getDeliveries.bind(webhookController)
+);
+router.get(
+  "/:id/deliveries/:deliveryId",
+  webhookController.getDelivery.bind(webhookController)
+);
+router.post(
+  "/:id/deliveries/:deliveryId/replay",
+  webhookController.replayDelivery.bind(webhookController)
+);
+
+export default router;
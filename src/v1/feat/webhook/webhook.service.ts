@@ -0,0 +1,349 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { WebhookSubscription } from "./webhook.model";
+import { WebhookDelivery } from "./webhook-delivery.model";
+import { jobQueue } from "@jobs/job.queue";
+import config from "@config/dotenv.config";
+import { postWebhook } from "@utils/webhook.utils";
+import { NotFoundError, ConflictError } from "@middlewares/error.middleware";
+import type { MediaEvent } from "@events/event.type";
+import type {
+  IWebhookDelivery,
+  IWebhookDeliveryDocument,
+  IWebhookSubscription,
+  IWebhookSubscriptionDocument,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryQueryOptions,
+} from "./webhook.type";
+
+export const WEBHOOK_DELIVERY_JOB = "webhook.deliver";
+
+export interface WebhookDeliveryPayload {
+  deliveryId: string;
+}
+
+export type CreateWebhookSubscriptionOptions = Pick<
+  IWebhookSubscription,
+  "url" | "description" | "events" | "entityTypes" | "fieldNames" | "createdBy"
+> & { secret?: string };
+
+export type UpdateWebhookSubscriptionOptions = Partial<
+  Pick<
+    IWebhookSubscription,
+    | "url"
+    | "description"
+    | "events"
+    | "entityTypes"
+    | "fieldNames"
+    | "secret"
+    | "isActive"
+  >
+>;
+
+// Attempts kept in each delivery log
+const MAX_LOGGED_ATTEMPTS = 20;
+
+export class WebhookService {
+  private async findSubscription(
+    id: string,
+    withSecret = false
+  ): Promise<IWebhookSubscriptionDocument> {
+    const subscription = Types.ObjectId.isValid(id)
+      ? await WebhookSubscription.findById(id).select(
+          withSecret ? "+secret" : ""
+        )
+      : null;
+    if (!subscription) {
+      throw new NotFoundError("Webhook subscription not found");
+    }
+    return subscription;
+  }
+
+  private async findDelivery(
+    subscriptionId: string,
+    deliveryId: string
+  ): Promise<IWebhookDeliveryDocument> {
+    const delivery = Types.ObjectId.isValid(deliveryId)
+      ? await WebhookDelivery.findOne({ _id: deliveryId, subscriptionId })
+      : null;
+    if (!delivery) {
+      throw new NotFoundError("Webhook delivery not found");
+    }
+    return delivery;
+  }
+
+  async createSubscription(
+    options: CreateWebhookSubscriptionOptions
+  ): Promise<IWebhookSubscription> {
+    const secret = options.secret ?? crypto.randomBytes(32).toString("hex");
+    const subscription = await WebhookSubscription.create({
+      ...options,
+      secret,
+    });
+
+    // The secret is only returned when it is set
+    return {
+      ...(subscription.toJSON() as unknown as IWebhookSubscription),
+      secret,
+    };
+  }
+
+  async listSubscriptions(): Promise<IWebhookSubscription[]> {
+    const subscriptions = await WebhookSubscription.find().sort({
+      createdAt: -1,
+    });
+    return subscriptions.map(
+      (s) => s.toJSON() as unknown as IWebhookSubscription
+    );
+  }
+
+  async getSubscription(id: string): Promise<IWebhookSubscription> {
+    const subscription = await this.findSubscription(id);
+    return subscription.toJSON() as unknown as IWebhookSubscription;
+  }
+
+  async updateSubscription(
+    id: string,
+    updates: UpdateWebhookSubscriptionOptions
+  ): Promise<IWebhookSubscription> {
+    const subscription = await this.findSubscription(id);
+    subscription.set(updates);
+    await subscription.save();
+
+    const updated = subscription.toJSON() as unknown as IWebhookSubscription;
+    return updates.secret ? { ...updated, secret: updates.secret } : updated;
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    const subscription = await this.findSubscription(id);
+    await subscription.deleteOne();
+    // Queued attempts find their delivery gone and stop
+    await WebhookDelivery.deleteMany({ subscriptionId: id });
+  }
+
+  /**
+   * Create a delivery for every active subscription whose filters match
+   * the event, and queue its first attempt. The outbox retries this on
+   * failure; the unique (subscriptionId, eventId) index keeps a retry from
+   * delivering twice.
+   */
+  async dispatchEvent(event: MediaEvent): Promise<void> {
+    const { entityType, fieldName } = event.media;
+    const subscriptions = await WebhookSubscription.find({
+      isActive: true,
+      $and: [
+        { $or: [{ events: { $size: 0 } }, { events: event.type }] },
+        { $or: [{ entityTypes: { $size: 0 } }, { entityTypes: entityType }] },
+        { $or: [{ fieldNames: { $size: 0 } }, { fieldNames: fieldName }] },
+      ],
+    });
+
+    for (const subscription of subscriptions) {
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        { subscriptionId: subscription._id.toString(), eventId: event.id },
+        {
+          $setOnInsert: {
+            eventType: event.type,
+            payload: event,
+            status: "pending",
+            nextAttemptAt: new Date(),
+          },
+        },
+        { upsert: true, new: true }
+      );
+
+      // Already queued by an earlier fan-out of this event
+      if (delivery.status !== "pending" || delivery.attemptCount > 0) continue;
+
+      await jobQueue.enqueue<WebhookDeliveryPayload>(WEBHOOK_DELIVERY_JOB, {
+        deliveryId: delivery._id.toString(),
+      });
+    }
+  }
+
+  /**
+   * Send one attempt of a delivery and log it. Retries are scheduled here
+   * rather than by the job queue so partner outages get a longer backoff
+   * (WEBHOOK_BACKOFF_BASE) than media jobs.
+   */
+  async attemptDelivery(deliveryId: string): Promise<void> {
+    const delivery = await WebhookDelivery.findById(deliveryId);
+    // Deleted with its subscription, or settled by an earlier job
+    if (!delivery || delivery.status !== "pending") return;
+
+    const subscription = await WebhookSubscription.findById(
+      delivery.subscriptionId
+    ).select("+secret");
+    if (!subscription || !subscription.isActive) {
+      await WebhookDelivery.findByIdAndUpdate(delivery._id, {
+        $set: { status: "failed", lastError: "Subscription is disabled" },
+        $unset: { nextAttemptAt: 1 },
+      });
+      return;
+    }
+
+    const startedAt = Date.now();
+    const attempt: WebhookDeliveryAttempt = {
+      attemptedAt: new Date(startedAt),
+      durationMs: 0,
+    };
+    try {
+      const response = await postWebhook(
+        subscription.url,
+        subscription.secret,
+        delivery.payload,
+        {
+          timeout: config.webhooks.timeout,
+          headers: { "X-Media-Delivery-Id": delivery._id.toString() },
+        }
+      );
+      attempt.responseStatus = response.status;
+      attempt.responseBody = response.body;
+      if (!response.ok) {
+        attempt.error = `Webhook responded with status ${response.status}`;
+      }
+    } catch (error) {
+      attempt.error = (error as Error).message;
+    }
+    attempt.durationMs = Date.now() - startedAt;
+
+    const attemptCount = delivery.attemptCount + 1;
+    const log = {
+      $push: {
+        attempts: { $each: [attempt], $slice: -MAX_LOGGED_ATTEMPTS },
+      },
+    };
+
+    if (!attempt.error) {
+      await WebhookDelivery.findByIdAndUpdate(delivery._id, {
+        ...log,
+        $set: { status: "succeeded", attemptCount, deliveredAt: new Date() },
+        $unset: { nextAttemptAt: 1, lastError: 1 },
+      });
+      return;
+    }
+
+    if (attemptCount < config.webhooks.maxAttempts) {
+      // Exponential backoff: base, 2x base, 4x base, ...
+      const delay = config.webhooks.backoffBase * 2 ** (attemptCount - 1);
+      await WebhookDelivery.findByIdAndUpdate(delivery._id, {
+        ...log,
+        $set: {
+          attemptCount,
+          nextAttemptAt: new Date(Date.now() + delay),
+          lastError: attempt.error,
+        },
+      });
+      await jobQueue.enqueue<WebhookDeliveryPayload>(
+        WEBHOOK_DELIVERY_JOB,
+        { deliveryId },
+        { delay }
+      );
+      return;
+    }
+
+    await WebhookDelivery.findByIdAndUpdate(delivery._id, {
+      ...log,
+      $set: { status: "failed", attemptCount, lastError: attempt.error },
+      $unset: { nextAttemptAt: 1 },
+    });
+  }
+
+  // Job failed for good, e.g. the database was unreachable
+  async markFailed(deliveryId: string, error: Error): Promise<void> {
+    await WebhookDelivery.updateOne(
+      { _id: deliveryId, status: "pending" },
+      {
+        $set: { status: "failed", lastError: error.message },
+        $unset: { nextAttemptAt: 1 },
+      }
+    );
+  }
+
+  async getDeliveries(
+    subscriptionId: string,
+    query: WebhookDeliveryQueryOptions
+  ): Promise<{
+    data: IWebhookDelivery[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    await this.findSubscription(subscriptionId);
+
+    const { page = 1, limit = 20 } = query;
+    const filter: Record<string, unknown> = { subscriptionId };
+    if (query.status) filter.status = query.status;
+    if (query.eventId) filter.eventId = query.eventId;
+
+    const skip = (page - 1) * limit;
+
+    // Payloads are left out of listings; fetch a delivery to see its own
+    const [data, total] = await Promise.all([
+      WebhookDelivery.find(filter)
+        .select("-payload")
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit),
+      WebhookDelivery.countDocuments(filter),
+    ]);
+
+    return {
+      data: data.map((d) => d.toJSON() as unknown as IWebhookDelivery),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getDelivery(
+    subscriptionId: string,
+    deliveryId: string
+  ): Promise<IWebhookDelivery> {
+    const delivery = await this.findDelivery(subscriptionId, deliveryId);
+    return delivery.toJSON() as unknown as IWebhookDelivery;
+  }
+
+  /**
+   * Send a settled delivery again with a fresh round of retries. The event
+   * ID and payload are unchanged; the signature timestamp is new.
+   */
+  async replayDelivery(
+    subscriptionId: string,
+    deliveryId: string
+  ): Promise<IWebhookDelivery> {
+    const subscription = await this.findSubscription(subscriptionId);
+    if (!subscription.isActive) {
+      throw new ConflictError("Webhook subscription is disabled");
+    }
+    await this.findDelivery(subscriptionId, deliveryId);
+
+    const now = new Date();
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: deliveryId, status: { $ne: "pending" } },
+      {
+        $set: {
+          status: "pending",
+          attemptCount: 0,
+          nextAttemptAt: now,
+          replayedAt: now,
+        },
+        $unset: { lastError: 1 },
+      },
+      { new: true }
+    );
+    if (!delivery) {
+      throw new ConflictError("Webhook delivery is already pending");
+    }
+
+    await jobQueue.enqueue<WebhookDeliveryPayload>(WEBHOOK_DELIVERY_JOB, {
+      deliveryId,
+    });
+
+    return delivery.toJSON() as unknown as IWebhookDelivery;
+  }
+}
+
+export const webhookService = new WebhookService();
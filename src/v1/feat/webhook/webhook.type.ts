@@ -0,0 +1,68 @@
+import type { Document } from "mongoose";
+import type { EntityType } from "@media/media.type";
+import type { MediaEvent, MediaEventType } from "@events/event.type";
+
+// Empty filter lists match everything
+export interface IWebhookSubscription {
+  _id?: string;
+  id?: string; // Serialized form of _id (see toJSON transform)
+  url: string;
+  description?: string;
+  events: MediaEventType[];
+  entityTypes: EntityType[];
+  fieldNames: string[];
+  secret: string; // Signs deliveries; only returned when set
+  isActive: boolean;
+  createdBy: string;
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IWebhookSubscriptionDocument
+  extends Omit<IWebhookSubscription, "_id" | "id">,
+    Document {}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  responseStatus?: number;
+  responseBody?: string; // Truncated
+  error?: string; // Network errors and timeouts
+  durationMs: number;
+}
+
+// One row per event and subscription; doubles as the delivery log
+export interface IWebhookDelivery {
+  _id?: string;
+  id?: string; // Serialized form of _id (see toJSON transform)
+  subscriptionId: string;
+  eventId: string;
+  eventType: MediaEventType;
+  payload: MediaEvent;
+
+  status: WebhookDeliveryStatus;
+  attemptCount: number; // Since creation or the last replay
+  attempts: WebhookDeliveryAttempt[]; // Most recent attempts only
+  nextAttemptAt?: Date; // When pending
+  lastError?: string;
+  deliveredAt?: Date;
+  replayedAt?: Date;
+
+  // Timestamps
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IWebhookDeliveryDocument
+  extends Omit<IWebhookDelivery, "_id" | "id">,
+    Document {}
+
+export interface WebhookDeliveryQueryOptions {
+  status?: WebhookDeliveryStatus;
+  eventId?: string;
+  page?: number;
+  limit?: number;
+}
@@ -1,8 +1,16 @@
 import { Router } from "express";
 import mediaRoutes from "@media/media.route";
+import uploadSessionRoutes from "@upload-session/upload-session.route";
+import uploadIntentRoutes from "@upload-intent/upload-intent.route";
+import storageMigrationRoutes from "@storage-migration/storage-migration.route";
+import webhookRoutes from "@webhook/webhook.route";
 
 const router = Router();
 
+router.use("/uploads", uploadSessionRoutes);
+router.use("/upload-intents", uploadIntentRoutes);
+router.use("/storage-migrations", storageMigrationRoutes);
+router.use("/webhooks", webhookRoutes);
 router.use("/", mediaRoutes);
 
 export default router;
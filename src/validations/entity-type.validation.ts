@@ -0,0 +1,7 @@
+import { z } from "zod";
+import { entityTypeRegistry } from "@entity-types/index";
+
+export const entityTypeSchema = z.string().refine(
+  (value) => entityTypeRegistry.has(value),
+  (value) => ({ message: `Unknown entity type '${value}'` })
+);
@@ -1,10 +1,24 @@
 import { z } from "zod";
+import { entityTypeSchema } from "./entity-type.validation";
+import config from "@config/dotenv.config";
+
+const allowedValue = (
+  allowed: number[],
+  label: string
+): z.ZodEffects<z.ZodNumber> =>
+  z.coerce
+    .number()
+    .int()
+    .refine((value) => allowed.includes(value), {
+      message: `${label} must be one of: ${allowed.join(", ")}`,
+    });
 
 export const uploadMediaSchema = z.object({
   body: z.object({
-    entityType: z.enum(["user", "property"]),
+    entityType: entityTypeSchema,
     entityId: z.string().min(1, "Entity ID is required"),
     fieldName: z.string().min(1, "Field name is required"),
+    visibility: z.enum(["public", "private"]).optional(),
   }),
 });
 
@@ -15,6 +29,8 @@ export const updateMediaSchema = z.object({
   body: z.object({
     isActive: z.boolean().optional(),
     isProcessed: z.boolean().optional(),
+    alt: z.string().max(500, "Alt text is too long").optional(),
+    caption: z.string().max(2000, "Caption is too long").optional(),
   }),
 });
 
@@ -32,11 +48,12 @@ export const deleteMediaSchema = z.object({
 
 export const queryMediaSchema = z.object({
   query: z.object({
-    entityType: z.enum(["user", "property"]).optional(),
+    entityType: entityTypeSchema.optional(),
     entityId: z.string().optional(),
     fieldName: z.string().optional(),
     uploadedBy: z.string().optional(),
     type: z.enum(["image", "video", "document"]).optional(),
+    status: z.enum(["pending", "processing", "ready", "failed"]).optional(),
     isActive: z.coerce.boolean().optional(),
     page: z.coerce.number().int().min(1).optional().default(1),
     limit: z.coerce.number().int().min(1).max(100).optional().default(20),
@@ -55,7 +72,7 @@ export const bulkDeleteSchema = z.object({
 
 export const getByEntitySchema = z.object({
   params: z.object({
-    entityType: z.enum(["user", "property"]),
+    entityType: entityTypeSchema,
     entityId: z.string().min(1, "Entity ID is required"),
   }),
   query: z.object({
@@ -63,8 +80,140 @@ export const getByEntitySchema = z.object({
   }),
 });
 
+export const reorderMediaSchema = z.object({
+  params: z.object({
+    entityType: entityTypeSchema,
+    entityId: z.string().min(1, "Entity ID is required"),
+    fieldName: z.string().min(1, "Field name is required"),
+  }),
+  body: z.object({
+    ids: z.array(z.string().min(1)).max(500, "Maximum 500 items allowed"),
+  }),
+});
+
+export const getSignedUrlSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Media ID is required"),
+  }),
+  query: z.object({
+    expiresIn: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(7 * 24 * 3600, "Maximum expiry is 7 days")
+      .optional()
+      .default(3600),
+    disposition: z.enum(["inline", "attachment"]).optional(),
+  }),
+});
+
+export const renderMediaSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Media ID is required"),
+  }),
+  query: z
+    .object({
+      w: allowedValue(config.render.allowedWidths, "Width").optional(),
+      h: allowedValue(config.render.allowedHeights, "Height").optional(),
+      fit: z
+        .enum(["cover", "contain", "fill", "inside", "outside"])
+        .optional()
+        .default("cover"),
+      format: z
+        .enum(["auto", "webp", "avif", "jpeg", "png"])
+        .optional()
+        .default("auto"),
+      q: allowedValue(config.render.allowedQualities, "Quality")
+        .optional()
+        .default(80),
+    })
+    .strict(),
+});
+
+// gRPC requests carry the same fields as REST, flattened into one message
+export const grpcGetMediaSchema = getMediaSchema.shape.params;
+
+export const grpcGetMediaByEntitySchema = getByEntitySchema.shape.params.merge(
+  getByEntitySchema.shape.query
+);
+
+export const grpcQueryMediaSchema = queryMediaSchema.shape.query
+  .omit({ page: true, limit: true, isActive: true })
+  .extend({
+    isActive: z.boolean().optional(),
+    // Zero means unset in proto3
+    limit: z
+      .number()
+      .int()
+      .min(0)
+      .max(100)
+      .transform((value) => value || 20),
+    cursor: z.string().optional(),
+    sortBy: z
+      .enum(["created_at", "updated_at", "size"])
+      .optional()
+      .transform((value) =>
+        value === "updated_at"
+          ? "updatedAt"
+          : value === "size"
+          ? "size"
+          : "createdAt"
+      ),
+    sortOrder: z.enum(["asc", "desc"]).optional(),
+  });
+
+export const grpcBatchGetMediaSchema = z.object({
+  ids: z
+    .array(z.string().min(1))
+    .min(1, "At least one ID is required")
+    .max(100, "Maximum 100 items allowed"),
+});
+
+export const grpcUpdateMediaSchema = updateMediaSchema.shape.params.merge(
+  updateMediaSchema.shape.body
+);
+
+export const grpcReorderMediaSchema = reorderMediaSchema.shape.params.merge(
+  reorderMediaSchema.shape.body
+);
+
+export const grpcBulkDeleteSchema = bulkDeleteSchema.shape.body;
+
+export const grpcGetSignedUrlSchema = getMediaSchema.shape.params.extend({
+  // Zero means unset in proto3
+  expiresIn: z
+    .number()
+    .int()
+    .min(0)
+    .max(7 * 24 * 3600, "Maximum expiry is 7 days")
+    .transform((value) => value || 3600),
+  disposition: z.enum(["inline", "attachment"]).optional(),
+});
+
+export const grpcDownloadMediaSchema = getMediaSchema.shape.params
+  .extend({
+    variant: z.string().optional(),
+    rangeStart: z.coerce.number().int().min(0).optional(),
+    rangeEnd: z.coerce.number().int().min(0).optional(),
+  })
+  .refine(
+    (data) =>
+      data.rangeStart === undefined ||
+      data.rangeEnd === undefined ||
+      data.rangeEnd >= data.rangeStart,
+    { message: "rangeEnd must not be before rangeStart", path: ["rangeEnd"] }
+  );
+
+// First message of each file in a gRPC upload stream
+export const uploadStreamMetadataSchema = uploadMediaSchema.shape.body.extend({
+  fileName: z.string().min(1, "File name is required"),
+  mimeType: z.string().min(1, "MIME type is required"),
+});
+
 export type UploadMediaInput = z.infer<typeof uploadMediaSchema>;
 export type UpdateMediaInput = z.infer<typeof updateMediaSchema>;
 export type QueryMediaInput = z.infer<typeof queryMediaSchema>;
 export type BulkDeleteInput = z.infer<typeof bulkDeleteSchema>;
+export type ReorderMediaInput = z.infer<typeof reorderMediaSchema>;
 export type GetByEntityInput = z.infer<typeof getByEntitySchema>;
+export type RenderMediaInput = z.infer<typeof renderMediaSchema>;
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+const providerSchema = z.enum(["s3", "cloudinary", "local"]);
+
+export const createStorageMigrationSchema = z.object({
+  body: z.object({
+    from: providerSchema,
+    to: providerSchema,
+    dryRun: z.boolean().default(false),
+    batchSize: z.coerce.number().int().min(1).max(500).default(50),
+  }),
+});
+
+export const storageMigrationParamsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Storage migration ID is required"),
+  }),
+});
+
+export type CreateStorageMigrationInput = z.infer<
+  typeof createStorageMigrationSchema
+>;
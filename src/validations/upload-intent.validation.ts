@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { entityTypeSchema } from "./entity-type.validation";
+
+export const createUploadIntentSchema = z.object({
+  body: z.object({
+    entityType: entityTypeSchema,
+    entityId: z.string().min(1, "Entity ID is required"),
+    fieldName: z.string().min(1, "Field name is required"),
+    fileName: z.string().min(1, "File name is required"),
+    mimeType: z.string().min(1, "MIME type is required"),
+    size: z.coerce.number().int().min(1, "Size must be positive"),
+    visibility: z.enum(["public", "private"]).optional(),
+  }),
+});
+
+export const completeUploadIntentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, "Upload intent ID is required"),
+  }),
+});
+
+export const localUploadSchema = z.object({
+  query: z.object({
+    key: z.string().min(1, "Key is required"),
+    expires: z.coerce.number().int(),
+    signature: z.string().min(1, "Signature is required"),
+  }),
+});
+
+export type CreateUploadIntentInput = z.infer<typeof createUploadIntentSchema>;
+export type LocalUploadInput = z.infer<typeof localUploadSchema>;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { entityTypeSchema } from "./entity-type.validation";
+
+export const createUploadSessionSchema = z.object({
+  body: z.object({
+    entityType: entityTypeSchema,
+    entityId: z.string().min(1, "Entity ID is required"),
+    fieldName: z.string().min(1, "Field name is required"),
+    fileName: z.string().min(1, "File name is required"),
+    mimeType: z.string().min(1, "MIME type is required"),
+    totalSize: z.coerce.number().int().min(1, "Total size must be positive"),
+    visibility: z.enum(["public", "private"]).optional(),
+  }),
+});
+
+export const uploadSessionParamsSchema = z.object({
+  params: z.object({
+    sessionId: z.string().min(1, "Session ID is required"),
+  }),
+});
+
+export const appendChunkSchema = z.object({
+  params: z.object({
+    sessionId: z.string().min(1, "Session ID is required"),
+  }),
+  headers: z.object({
+    "upload-offset": z.coerce.number().int().min(0),
+  }),
+});
+
+export type CreateUploadSessionInput = z.infer<
+  typeof createUploadSessionSchema
+>;
+export type AppendChunkInput = z.infer<typeof appendChunkSchema>;
@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { entityTypeSchema } from "./entity-type.validation";
+
+const urlSchema = z
+  .string()
+  .url("Invalid webhook URL")
+  .refine((value) => /^https?:\/\//i.test(value), {
+    message: "Webhook URL must use http or https",
+  });
+
+const eventTypeSchema = z.enum([
+  "media.uploaded",
+  "media.processed",
+  "media.updated",
+  "media.deleted",
+  "media.purged",
+]);
+
+const secretSchema = z
+  .string()
+  .min(16, "Secret must be at least 16 characters")
+  .max(256, "Secret is too long");
+
+const subscriptionParams = z.object({
+  id: z.string().min(1, "Subscription ID is required"),
+});
+
+export const createWebhookSubscriptionSchema = z.object({
+  body: z.object({
+    url: urlSchema,
+    description: z.string().max(500, "Description is too long").optional(),
+    events: z.array(eventTypeSchema).default([]),
+    entityTypes: z.array(entityTypeSchema).default([]),
+    fieldNames: z.array(z.string().min(1)).default([]),
+    secret: secretSchema.optional(), // Generated when omitted
+  }),
+});
+
+export const updateWebhookSubscriptionSchema = z.object({
+  params: subscriptionParams,
+  body: z.object({
+    url: urlSchema.optional(),
+    description: z.string().max(500, "Description is too long").optional(),
+    events: z.array(eventTypeSchema).optional(),
+    entityTypes: z.array(entityTypeSchema).optional(),
+    fieldNames: z.array(z.string().min(1)).optional(),
+    secret: secretSchema.optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const webhookSubscriptionParamsSchema = z.object({
+  params: subscriptionParams,
+});
+
+export const getWebhookDeliveriesSchema = z.object({
+  params: subscriptionParams,
+  query: z.object({
+    status: z.enum(["pending", "succeeded", "failed"]).optional(),
+    eventId: z.string().optional(),
+    page: z.coerce.number().int().min(1).optional().default(1),
+    limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  }),
+});
+
+export const webhookDeliveryParamsSchema = z.object({
+  params: subscriptionParams.extend({
+    deliveryId: z.string().min(1, "Delivery ID is required"),
+  }),
+});
+
+export type CreateWebhookSubscriptionInput = z.infer<
+  typeof createWebhookSubscriptionSchema
+>;
+export type UpdateWebhookSubscriptionInput = z.infer<
+  typeof updateWebhookSubscriptionSchema
+>;